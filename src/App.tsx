@@ -3,22 +3,47 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import {
+  Route,
+  RouterProvider,
+  createBrowserRouter,
+  createRoutesFromElements,
+} from "react-router-dom";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import AdminLogin from "./pages/admin/AdminLogin";
 import Signup from "./pages/Signup";
 import Cart from "./pages/Cart";
+import Wishlist from "./pages/Wishlist";
 import Products from "./pages/Products";
+import CategoryPage from "./pages/Category";
 import ProductDetail from "./pages/ProductDetail";
 import Dashboard from "./pages/admin/Dashboard";
 import AddProduct from "./pages/admin/AddProduct";
 import EditProduct from "./pages/admin/EditProduct";
+import Orders from "./pages/admin/Orders";
+import OrderDetail from "./pages/admin/OrderDetail";
+import Customers from "./pages/admin/Customers";
+import CustomerDetail from "./pages/admin/CustomerDetail";
+import Settings from "./pages/admin/Settings";
+import Coupons from "./pages/admin/Coupons";
+import Inventory from "./pages/admin/Inventory";
+import Categories from "./pages/admin/Categories";
+import MyOrders from "./pages/MyOrders";
+import Checkout from "./pages/Checkout";
+import OrderConfirmation from "./pages/OrderConfirmation";
+import PaymentCallback from "./pages/PaymentCallback";
 import NotFound from "./pages/NotFound";
 import { AuthProvider } from "./contexts/AuthContext";
 import ProtectedRoute from "./components/ProtectedRoute";
 import { ProductProvider } from "./contexts/ProductContext";
+import { CategoryProvider } from "./contexts/CategoryContext";
 import { CartProvider } from "@/contexts/CartContext";
+import { OrderProvider } from "@/contexts/OrderContext";
+import { WishlistProvider } from "@/contexts/WishlistContext";
+import { StoreSettingsProvider } from "@/contexts/StoreSettingsContext";
+import { CurrencyProvider } from "@/contexts/CurrencyContext";
+import { MOCK_CARD_CALLBACK_PATH } from "@/lib/payments";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -29,57 +54,130 @@ const queryClient = new QueryClient({
   },
 });
 
+// A data router, so pages can block navigation (see ProductForm)
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <>
+      {/* Public Routes */}
+      <Route path="/" element={<Index />} />
+      <Route path="/login" element={<Login />} />
+      <Route path="/admin/login" element={<AdminLogin />} />
+      <Route path="/signup" element={<Signup />} />
+      <Route path="/products" element={<Products />} />
+      <Route path="/category/:slug" element={<CategoryPage />} />
+      <Route path="/product/:id" element={<ProductDetail />} />
+      <Route path="/cart" element={<Cart />} />
+      <Route path="/wishlist" element={<Wishlist />} />
+
+      {/* Protected User Routes */}
+      <Route path="/checkout" element={
+        <ProtectedRoute>
+          <Checkout />
+        </ProtectedRoute>
+      } />
+      <Route path={MOCK_CARD_CALLBACK_PATH} element={
+        <ProtectedRoute>
+          <PaymentCallback />
+        </ProtectedRoute>
+      } />
+      <Route path="/orders/:id/confirmation" element={
+        <ProtectedRoute>
+          <OrderConfirmation />
+        </ProtectedRoute>
+      } />
+      <Route path="/orders" element={
+        <ProtectedRoute>
+          <MyOrders />
+        </ProtectedRoute>
+      } />
+
+      {/* Admin Routes */}
+      <Route path="/admin/dashboard" element={
+        <ProtectedRoute requireAdmin>
+          <Dashboard />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/add-product" element={
+        <ProtectedRoute requireAdmin>
+          <AddProduct />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/edit-product/:id" element={
+        <ProtectedRoute requireAdmin>
+          <EditProduct />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/orders" element={
+        <ProtectedRoute requireAdmin>
+          <Orders />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/orders/:id" element={
+        <ProtectedRoute requireAdmin>
+          <OrderDetail />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/customers" element={
+        <ProtectedRoute requireAdmin>
+          <Customers />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/customers/:id" element={
+        <ProtectedRoute requireAdmin>
+          <CustomerDetail />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/coupons" element={
+        <ProtectedRoute requireAdmin>
+          <Coupons />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/categories" element={
+        <ProtectedRoute requireAdmin>
+          <Categories />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/inventory" element={
+        <ProtectedRoute requireAdmin>
+          <Inventory />
+        </ProtectedRoute>
+      } />
+      <Route path="/admin/settings" element={
+        <ProtectedRoute requireAdmin>
+          <Settings />
+        </ProtectedRoute>
+      } />
+
+      {/* 404 Route - Keep this last */}
+      <Route path="*" element={<NotFound />} />
+    </>
+  )
+);
+
 const App = () => (
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
-      <AuthProvider>
-        <ProductProvider>
-          <CartProvider>
-            <TooltipProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter>
-                <Routes>
-                  {/* Public Routes */}
-                  <Route path="/" element={<Index />} />
-                  <Route path="/login" element={<Login />} />
-                  <Route path="/admin/login" element={<AdminLogin />} />
-                  <Route path="/signup" element={<Signup />} />
-                  <Route path="/products" element={<Products />} />
-                  <Route path="/product/:id" element={<ProductDetail />} />
-                  
-                  {/* Protected User Routes */}
-                  <Route path="/cart" element={
-                    <ProtectedRoute>
-                      <Cart />
-                    </ProtectedRoute>
-                  } />
-                  
-                  {/* Admin Routes */}
-                  <Route path="/admin/dashboard" element={
-                    <ProtectedRoute requireAdmin>
-                      <Dashboard />
-                    </ProtectedRoute>
-                  } />
-                  <Route path="/admin/add-product" element={
-                    <ProtectedRoute requireAdmin>
-                      <AddProduct />
-                    </ProtectedRoute>
-                  } />
-                  <Route path="/admin/edit-product/:id" element={
-                    <ProtectedRoute requireAdmin>
-                      <EditProduct />
-                    </ProtectedRoute>
-                  } />
-                  
-                  {/* 404 Route - Keep this last */}
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </BrowserRouter>
-            </TooltipProvider>
-          </CartProvider>
-        </ProductProvider>
-      </AuthProvider>
+      <StoreSettingsProvider>
+        <CurrencyProvider>
+          <AuthProvider>
+            <ProductProvider>
+              <CategoryProvider>
+                <CartProvider>
+                  <WishlistProvider>
+                    <OrderProvider>
+                      <TooltipProvider>
+                        <Toaster />
+                        <Sonner />
+                        <RouterProvider router={router} />
+                      </TooltipProvider>
+                    </OrderProvider>
+                  </WishlistProvider>
+                </CartProvider>
+              </CategoryProvider>
+            </ProductProvider>
+          </AuthProvider>
+        </CurrencyProvider>
+      </StoreSettingsProvider>
     </QueryClientProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role?: "admin" | "client";
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export const userSchema = z.object({
+  id: z.coerce.string(),
+  name: z.string().default(""),
+  email: z.string().default(""),
+  role: z.enum(["admin", "client"]).optional(),
+}) as ResponseSchema<User>;
+
+const tokensSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+});
+
+export const signIn = async (email: string, password: string) =>
+  request({
+    method: "POST",
+    url: "/user/signin",
+    data: { username: email, password },
+    skipAuth: true,
+    schema: tokensSchema.extend({ user: userSchema }) as ResponseSchema<
+      SessionTokens & { user: User }
+    >,
+    errorMessage: "Invalid email or password",
+  });
+
+export const adminSignIn = async (email: string, password: string) => {
+  const { admin, ...tokens } = await request({
+    method: "POST",
+    url: "/user/admin-login",
+    data: { username: email, password },
+    skipAuth: true,
+    schema: tokensSchema.extend({ admin: userSchema }) as ResponseSchema<
+      SessionTokens & { admin: User }
+    >,
+    errorMessage: "Invalid admin credentials",
+  });
+  return { user: admin, ...tokens };
+};
+
+export const signUp = async (fullName: string, email: string, password: string) => {
+  await request({
+    method: "POST",
+    url: "/user/signup",
+    data: { fullName, username: email, password },
+    skipAuth: true,
+    schema: z.unknown(),
+    errorMessage: "Failed to create account",
+  });
+};
+
+export const refreshSession = async (refreshToken: string): Promise<SessionTokens> =>
+  request({
+    method: "POST",
+    url: "/user/refresh-token",
+    data: { refreshToken },
+    skipAuth: true,
+    schema: tokensSchema as ResponseSchema<SessionTokens>,
+    errorMessage: "Session expired",
+  });
+
+export const signOut = async (accessToken: string) => {
+  await request({
+    method: "POST",
+    url: "/user/logout",
+    data: {},
+    skipAuth: true,
+    headers: { Authorization: `Bearer ${accessToken}` },
+    schema: z.unknown(),
+    errorMessage: "Server logout failed",
+  });
+};
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+import { Product, productSchema } from "./products";
+
+export interface CartLine {
+  product: Product;
+  // Set for products sold in variants
+  variantId?: string;
+  quantity: number;
+}
+
+// The server only needs ids; it returns lines with current product data
+export interface CartLineInput {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+const cartSchema = z.object({
+  cart: z.object({
+    items: z
+      .array(
+        z.object({
+          product: productSchema,
+          variantId: z.coerce.string().nullish(),
+          quantity: z.coerce.number().int().positive(),
+        })
+      )
+      .default([]),
+  }),
+}) as ResponseSchema<{ cart: { items: CartLine[] } }>;
+
+export const getCart = async () => {
+  const { cart } = await request({
+    method: "GET",
+    url: "/cart/my-cart",
+    schema: cartSchema,
+    errorMessage: "Failed to load your cart",
+  });
+  return cart.items;
+};
+
+export const saveCart = async (items: CartLineInput[]) => {
+  const { cart } = await request({
+    method: "PUT",
+    url: "/cart/update-cart",
+    data: { items },
+    schema: cartSchema,
+    errorMessage: "Failed to save your cart",
+  });
+  return cart.items;
+};
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+
+export interface Category {
+  id: string;
+  name: string;
+  // Unique across the store, used in /category/:slug
+  slug: string;
+  // Top-level categories have no parent
+  parentId?: string;
+  description?: string;
+  imageUrl?: string;
+  // Lower numbers come first among siblings
+  sortOrder: number;
+  // Products filed directly under this category, not its descendants
+  productCount?: number;
+}
+
+export const categorySchema = z.object({
+  id: z.coerce.string(),
+  name: z.string(),
+  slug: z.string(),
+  parentId: z.coerce.string().nullish(),
+  description: z.string().nullish(),
+  imageUrl: z.string().nullish(),
+  sortOrder: z.coerce.number().catch(0),
+  productCount: z.coerce.number().nullish(),
+}) as ResponseSchema<Category>;
+
+// Public so the storefront can build category navigation
+export const getCategories = async () => {
+  const { categories } = await request({
+    method: "GET",
+    url: "/category/all-categories",
+    skipAuth: true,
+    schema: z.object({ categories: z.array(categorySchema) }),
+    errorMessage: "Failed to load categories",
+  });
+  return categories;
+};
+
+// Sent as multipart so an image file can ride along, as with products
+export const createCategory = async (formData: FormData) => {
+  const { category } = await request({
+    method: "POST",
+    url: "/category/create-category",
+    data: formData,
+    headers: { "Content-Type": "multipart/form-data" },
+    schema: z.object({ category: categorySchema }),
+    errorMessage: "Failed to create category",
+  });
+  return category;
+};
+
+export const updateCategory = async (id: string, formData: FormData) => {
+  const { category } = await request({
+    method: "PUT",
+    url: `/category/update-category/${id}`,
+    data: formData,
+    headers: { "Content-Type": "multipart/form-data" },
+    schema: z.object({ category: categorySchema }),
+    errorMessage: "Failed to update category",
+  });
+  return category;
+};
+
+// The server refuses while products or subcategories still use the category
+export const deleteCategory = async (id: string) => {
+  await request({
+    method: "DELETE",
+    url: `/category/delete-category/${id}`,
+    schema: z.unknown(),
+    errorMessage: "Failed to delete category",
+  });
+};
@@ -0,0 +1,176 @@
+import axios, { AxiosRequestConfig } from "axios";
+import { z } from "zod";
+import { config } from "@/config";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Skip attaching the Authorization header (login, refresh, ...)
+    skipAuth?: boolean;
+    // Set once a request has been replayed after a 401
+    retriedAfterRefresh?: boolean;
+  }
+}
+
+export type ApiErrorKind = "network" | "http" | "validation";
+
+interface ApiErrorOptions {
+  kind: ApiErrorKind;
+  status?: number;
+  fieldErrors?: Record<string, string>;
+  cause?: unknown;
+}
+
+// Normalized error thrown by every endpoint function
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  fieldErrors: Record<string, string>;
+  cause?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = options.kind;
+    this.status = options.status;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.cause = options.cause;
+  }
+}
+
+interface AuthHandlers {
+  // Returns a non-expired access token, refreshing it first if needed
+  resolveAccessToken: () => Promise<string | null>;
+  // Called with the token the server rejected; returns a replacement or null
+  recoverFromUnauthorized: (rejectedToken: string) => Promise<string | null>;
+}
+
+let authHandlers: AuthHandlers = {
+  resolveAccessToken: async () => null,
+  recoverFromUnauthorized: async () => null,
+};
+
+// The session module registers how tokens are obtained and renewed
+export const setAuthHandlers = (handlers: AuthHandlers) => {
+  authHandlers = handlers;
+};
+
+export const apiClient = axios.create({
+  baseURL: config.apiBaseUrl,
+});
+
+apiClient.interceptors.request.use(async (requestConfig) => {
+  if (requestConfig.skipAuth || requestConfig.headers.Authorization) {
+    return requestConfig;
+  }
+
+  const accessToken = await authHandlers.resolveAccessToken();
+  if (accessToken) {
+    requestConfig.headers.Authorization = `Bearer ${accessToken}`;
+  }
+  return requestConfig;
+});
+
+// Replay an authenticated request once with a renewed token on 401
+apiClient.interceptors.response.use(undefined, async (err) => {
+  const requestConfig = axios.isAxiosError(err) ? err.config : undefined;
+  const authorization = requestConfig?.headers.Authorization;
+
+  if (
+    err.response?.status !== 401 ||
+    !requestConfig ||
+    requestConfig.skipAuth ||
+    requestConfig.retriedAfterRefresh ||
+    typeof authorization !== "string"
+  ) {
+    throw err;
+  }
+
+  const rejectedToken = authorization.replace(/^Bearer /, "");
+  const accessToken = await authHandlers.recoverFromUnauthorized(rejectedToken);
+  if (!accessToken) {
+    throw err;
+  }
+
+  requestConfig.retriedAfterRefresh = true;
+  requestConfig.headers.Authorization = `Bearer ${accessToken}`;
+  return apiClient.request(requestConfig);
+});
+
+const extractFieldErrors = (data: unknown): Record<string, string> => {
+  const errors = (data as { errors?: unknown } | undefined)?.errors;
+  if (!errors || typeof errors !== "object") return {};
+
+  // Accept both `{ field: "message" }` and `[{ path|field, message }]`
+  if (Array.isArray(errors)) {
+    return errors.reduce<Record<string, string>>((acc, entry) => {
+      const field = entry?.path ?? entry?.field;
+      if (field && entry?.message) {
+        acc[Array.isArray(field) ? field.join(".") : String(field)] = String(entry.message);
+      }
+      return acc;
+    }, {});
+  }
+
+  return Object.fromEntries(
+    Object.entries(errors)
+      .filter(([, message]) => typeof message === "string")
+      .map(([field, message]) => [field, message as string])
+  );
+};
+
+export const toApiError = (err: unknown, fallbackMessage: string): ApiError => {
+  if (err instanceof ApiError) return err;
+
+  if (axios.isAxiosError(err)) {
+    if (!err.response) {
+      return new ApiError(fallbackMessage, { kind: "network", cause: err });
+    }
+    const data = err.response.data as { message?: unknown } | undefined;
+    const message = typeof data?.message === "string" ? data.message : fallbackMessage;
+    return new ApiError(message, {
+      kind: "http",
+      status: err.response.status,
+      fieldErrors: extractFieldErrors(data),
+      cause: err,
+    });
+  }
+
+  return new ApiError(fallbackMessage, { kind: "network", cause: err });
+};
+
+// Message to surface in toasts for any thrown value
+export const getErrorMessage = (err: unknown, fallbackMessage: string) =>
+  err instanceof Error && err.message ? err.message : fallbackMessage;
+
+// The tsconfig runs without strictNullChecks, which makes z.infer mark every
+// key optional, so endpoint schemas are asserted to their interfaces instead
+export type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+interface RequestOptions<T> extends AxiosRequestConfig {
+  schema: ResponseSchema<T>;
+  errorMessage: string;
+}
+
+export const request = async <T>({
+  schema,
+  errorMessage,
+  ...requestConfig
+}: RequestOptions<T>): Promise<T> => {
+  let data: unknown;
+  try {
+    const response = await apiClient.request(requestConfig);
+    data = response.data;
+  } catch (err) {
+    throw toApiError(err, errorMessage);
+  }
+
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    console.error(`Unexpected response from ${requestConfig.url}:`, parsed.error.issues);
+    throw new ApiError("Invalid response format", {
+      kind: "validation",
+      cause: parsed.error,
+    });
+  }
+  return parsed.data;
+};
@@ -0,0 +1,97 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+
+export const COUPON_TYPES = ["percentage", "fixed", "free_shipping"] as const;
+
+export type CouponType = (typeof COUPON_TYPES)[number];
+
+export interface Coupon {
+  id: string;
+  // Stored and matched upper-case
+  code: string;
+  type: CouponType;
+  // Percent off for "percentage", an amount in the store currency for "fixed",
+  // ignored for "free_shipping"
+  value: number;
+  // In the store currency
+  minSubtotal?: number;
+  // Only items filed directly in these categories are discounted; empty means
+  // every item. Ids, so renaming a category keeps its coupons working.
+  categoryIds: string[];
+  expiresAt?: string;
+  usageLimit?: number;
+  usageCount: number;
+  active: boolean;
+  createdAt?: string;
+}
+
+export type CouponInput = Omit<Coupon, "id" | "usageCount" | "createdAt">;
+
+export const couponSchema = z.object({
+  id: z.coerce.string(),
+  code: z.string().toUpperCase(),
+  type: z.enum(COUPON_TYPES),
+  value: z.coerce.number().catch(0),
+  minSubtotal: z.coerce.number().nullish(),
+  categoryIds: z.array(z.coerce.string()).nullish().transform((ids) => ids ?? []),
+  expiresAt: z.string().nullish(),
+  usageLimit: z.coerce.number().nullish(),
+  usageCount: z.coerce.number().catch(0),
+  active: z.boolean().catch(true),
+  createdAt: z.string().nullish(),
+}) as ResponseSchema<Coupon>;
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+export const getCoupons = async () => {
+  const { coupons } = await request({
+    method: "GET",
+    url: "/coupon/all-coupons",
+    schema: z.object({ coupons: z.array(couponSchema) }),
+    errorMessage: "Failed to load coupons",
+  });
+  return coupons;
+};
+
+// Public lookup used by the cart; eligibility is checked client-side and
+// again by the server when the order is placed
+export const getCouponByCode = async (code: string) => {
+  const { coupon } = await request({
+    method: "GET",
+    url: `/coupon/code/${encodeURIComponent(normalizeCouponCode(code))}`,
+    schema: z.object({ coupon: couponSchema }),
+    errorMessage: "That code isn't valid",
+  });
+  return coupon;
+};
+
+export const createCoupon = async (coupon: CouponInput) => {
+  const { coupon: created } = await request({
+    method: "POST",
+    url: "/coupon/create-coupon",
+    data: coupon,
+    schema: z.object({ coupon: couponSchema }),
+    errorMessage: "Failed to create coupon",
+  });
+  return created;
+};
+
+export const updateCoupon = async (id: string, changes: Partial<CouponInput>) => {
+  const { coupon } = await request({
+    method: "PUT",
+    url: `/coupon/update-coupon/${id}`,
+    data: changes,
+    schema: z.object({ coupon: couponSchema }),
+    errorMessage: "Failed to update coupon",
+  });
+  return coupon;
+};
+
+export const deleteCoupon = async (id: string) => {
+  await request({
+    method: "DELETE",
+    url: `/coupon/delete-coupon/${id}`,
+    schema: z.unknown(),
+    errorMessage: "Failed to delete coupon",
+  });
+};
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+import { User } from "./auth";
+import { Order, orderSchema } from "./orders";
+
+export type UserRole = NonNullable<User["role"]>;
+
+export interface Customer extends User {
+  createdAt?: string;
+  orderCount?: number;
+  lifetimeValue?: number;
+}
+
+export type CustomerSortField = "name" | "email" | "createdAt" | "lifetimeValue";
+
+export interface CustomerListParams {
+  page: number;
+  limit: number;
+  search?: string;
+  sortBy?: CustomerSortField;
+  sortOrder?: "asc" | "desc";
+}
+
+export interface CustomerPage {
+  customers: Customer[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export const customerSchema = z.object({
+  id: z.coerce.string(),
+  name: z.string().default(""),
+  email: z.string().default(""),
+  role: z.enum(["admin", "client"]).optional(),
+  createdAt: z.string().nullish(),
+  orderCount: z.coerce.number().nullish(),
+  lifetimeValue: z.coerce.number().nullish(),
+}) as ResponseSchema<Customer>;
+
+export const getCustomers = async (params: CustomerListParams): Promise<CustomerPage> =>
+  request({
+    method: "GET",
+    url: "/user/all-users",
+    params,
+    schema: z.object({
+      customers: z.array(customerSchema),
+      total: z.coerce.number(),
+      page: z.coerce.number(),
+      limit: z.coerce.number(),
+    }) as ResponseSchema<CustomerPage>,
+    errorMessage: "Failed to load customers",
+  });
+
+export const getCustomer = async (id: string) =>
+  request({
+    method: "GET",
+    url: `/user/user-details/${id}`,
+    schema: z.object({
+      customer: customerSchema,
+      orders: z.array(orderSchema).default([]),
+    }) as ResponseSchema<{ customer: Customer; orders: Order[] }>,
+    errorMessage: "Failed to load customer",
+  });
+
+export const updateCustomerRole = async (id: string, role: UserRole) => {
+  const { customer } = await request({
+    method: "PUT",
+    url: `/user/update-role/${id}`,
+    data: { role },
+    schema: z.object({ customer: customerSchema }),
+    errorMessage: "Failed to update role",
+  });
+  return customer;
+};
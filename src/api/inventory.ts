@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+import { Product, productSchema } from "./products";
+
+export const STOCK_REASONS = ["received", "sold", "damaged", "correction"] as const;
+export type StockReason = (typeof STOCK_REASONS)[number];
+
+// One entry in a product's stock ledger. Sales are recorded by the server
+// when orders are placed; everything else comes from admin adjustments.
+export interface StockMovement {
+  id: string;
+  productId: string;
+  variantId?: string;
+  // Units added (positive) or removed (negative)
+  change: number;
+  reason: StockReason;
+  note?: string;
+  // Stock after this movement
+  balance: number;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface StockAdjustment {
+  change: number;
+  reason: StockReason;
+  note?: string;
+  // Required for products sold in variants
+  variantId?: string;
+}
+
+export const stockMovementSchema = z.object({
+  id: z.coerce.string(),
+  productId: z.coerce.string(),
+  variantId: z.coerce.string().nullish(),
+  change: z.coerce.number(),
+  reason: z.enum(STOCK_REASONS).catch("correction"),
+  note: z.string().nullish(),
+  balance: z.coerce.number(),
+  createdBy: z.string().nullish(),
+  createdAt: z.string(),
+}) as ResponseSchema<StockMovement>;
+
+export const getStockMovements = async (productId: string) => {
+  const { movements } = await request({
+    method: "GET",
+    url: `/inventory/movements/${productId}`,
+    schema: z.object({ movements: z.array(stockMovementSchema) }),
+    errorMessage: "Failed to load stock history",
+  });
+  return movements;
+};
+
+// Resolves to the product with its new stock and the recorded movement
+export const adjustStock = async (productId: string, adjustment: StockAdjustment) =>
+  request({
+    method: "POST",
+    url: `/inventory/adjust/${productId}`,
+    data: adjustment,
+    schema: z.object({
+      product: productSchema,
+      movement: stockMovementSchema,
+    }) as ResponseSchema<{ product: Product; movement: StockMovement }>,
+    errorMessage: "Failed to adjust stock",
+  });
@@ -0,0 +1,247 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+import { CURRENCY_CODES, CurrencyCode } from "@/lib/currency";
+
+export const ORDER_STATUSES = [
+  "pending",
+  "confirmed",
+  "shipped",
+  "delivered",
+  "cancelled",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Statuses an order may move to from its current one
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const DELIVERY_METHODS = ["delivery", "pickup"] as const;
+
+export type DeliveryMethod = (typeof DELIVERY_METHODS)[number];
+
+export const PAYMENT_METHODS = ["cod", "card", "whatsapp"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_STATUSES = [
+  "pending",
+  "requires_action",
+  "succeeded",
+  "failed",
+  "refunded",
+] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export interface OrderPayment {
+  paymentMethod: PaymentMethod;
+  paymentStatus: PaymentStatus;
+  // Provider-side id of the payment, needed for refunds
+  paymentReference?: string;
+}
+
+export interface ContactDetails {
+  fullName: string;
+  email: string;
+  phone: string;
+}
+
+export interface ShippingAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postalCode?: string;
+  country: string;
+}
+
+export interface OrderItem {
+  productId: string;
+  variantId?: string;
+  // Option values at the time of the order, e.g. "M / Red"
+  variantName?: string;
+  sku?: string;
+  name: string;
+  price: number;
+  quantity: number;
+  imageUrl?: string;
+  // Coupon discount on the whole line
+  discount?: number;
+}
+
+export interface Order {
+  id: string;
+  orderNumber: string;
+  userId: string;
+  customerName?: string;
+  customerEmail?: string;
+  items: OrderItem[];
+  // Missing on orders placed before structured checkout
+  contact?: ContactDetails;
+  shippingAddress?: ShippingAddress;
+  deliveryMethod?: DeliveryMethod;
+  shippingFee?: number;
+  couponCode?: string;
+  discount?: number;
+  tax?: number;
+  taxRate?: number;
+  // Tax is part of the item prices rather than added to the total
+  taxInclusive?: boolean;
+  paymentMethod?: PaymentMethod;
+  paymentStatus?: PaymentStatus;
+  paymentReference?: string;
+  subtotal: number;
+  total: number;
+  // Orders created before multi-currency support carry no currency
+  currency?: CurrencyCode;
+  status: OrderStatus;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface NewOrder {
+  items: OrderItem[];
+  contact: ContactDetails;
+  // Omitted for store pickup
+  shippingAddress?: ShippingAddress;
+  deliveryMethod: DeliveryMethod;
+  shippingFee: number;
+  couponCode?: string;
+  // Items and shipping discount combined; total is net of it
+  discount: number;
+  tax: number;
+  taxRate: number;
+  taxInclusive: boolean;
+  paymentMethod: PaymentMethod;
+  subtotal: number;
+  total: number;
+  currency: CurrencyCode;
+}
+
+export const orderItemSchema = z.object({
+  productId: z.coerce.string(),
+  variantId: z.coerce.string().nullish(),
+  variantName: z.string().nullish(),
+  sku: z.string().nullish(),
+  name: z.string(),
+  price: z.coerce.number(),
+  quantity: z.coerce.number(),
+  imageUrl: z.string().nullish(),
+  discount: z.coerce.number().nullish(),
+}) as ResponseSchema<OrderItem>;
+
+const contactDetailsSchema = z.object({
+  fullName: z.string(),
+  email: z.string(),
+  phone: z.string(),
+}) as ResponseSchema<ContactDetails>;
+
+const shippingAddressSchema = z.object({
+  line1: z.string(),
+  line2: z.string().nullish(),
+  city: z.string(),
+  region: z.string().nullish(),
+  postalCode: z.string().nullish(),
+  country: z.string(),
+}) as ResponseSchema<ShippingAddress>;
+
+export const orderSchema = z
+  .object({
+    id: z.coerce.string(),
+    orderNumber: z.coerce.string().nullish(),
+    userId: z.coerce.string(),
+    customerName: z.string().nullish(),
+    customerEmail: z.string().nullish(),
+    items: z.array(orderItemSchema).default([]),
+    contact: contactDetailsSchema.nullish(),
+    shippingAddress: shippingAddressSchema.nullish(),
+    deliveryMethod: z.enum(DELIVERY_METHODS).nullish().catch(undefined),
+    shippingFee: z.coerce.number().nullish(),
+    couponCode: z.string().nullish(),
+    discount: z.coerce.number().nullish(),
+    tax: z.coerce.number().nullish(),
+    taxRate: z.coerce.number().nullish(),
+    taxInclusive: z.boolean().nullish(),
+    paymentMethod: z.enum(PAYMENT_METHODS).nullish().catch(undefined),
+    paymentStatus: z.enum(PAYMENT_STATUSES).nullish().catch(undefined),
+    paymentReference: z.string().nullish(),
+    subtotal: z.coerce.number(),
+    total: z.coerce.number(),
+    currency: z.enum(CURRENCY_CODES).nullish().catch(undefined),
+    status: z.enum(ORDER_STATUSES),
+    createdAt: z.string(),
+    updatedAt: z.string().nullish(),
+  })
+  .transform((order) => ({
+    ...order,
+    orderNumber: order.orderNumber ?? order.id.slice(-8).toUpperCase(),
+  })) as ResponseSchema<Order>;
+
+export const createOrder = async (order: NewOrder) => {
+  const { order: created } = await request({
+    method: "POST",
+    url: "/order/create-order",
+    data: order,
+    schema: z.object({ order: orderSchema }),
+    errorMessage: "Failed to place order",
+  });
+  return created;
+};
+
+export const getMyOrders = async () => {
+  const { orders } = await request({
+    method: "GET",
+    url: "/order/my-orders",
+    schema: z.object({ orders: z.array(orderSchema) }),
+    errorMessage: "Failed to load your orders",
+  });
+  return orders;
+};
+
+export const getOrder = async (id: string) => {
+  const { order } = await request({
+    method: "GET",
+    url: `/order/order-details/${id}`,
+    schema: z.object({ order: orderSchema }),
+    errorMessage: "Failed to load order",
+  });
+  return order;
+};
+
+export const getAllOrders = async () => {
+  const { orders } = await request({
+    method: "GET",
+    url: "/order/all-orders",
+    schema: z.object({ orders: z.array(orderSchema) }),
+    errorMessage: "Failed to load orders",
+  });
+  return orders;
+};
+
+export const updateOrderStatus = async (id: string, status: OrderStatus) => {
+  const { order } = await request({
+    method: "PUT",
+    url: `/order/update-status/${id}`,
+    data: { status },
+    schema: z.object({ order: orderSchema }),
+    errorMessage: "Failed to update order status",
+  });
+  return order;
+};
+
+export const updateOrderPayment = async (id: string, payment: OrderPayment) => {
+  const { order } = await request({
+    method: "PUT",
+    url: `/order/update-payment/${id}`,
+    data: payment,
+    schema: z.object({ order: orderSchema }),
+    errorMessage: "Failed to record payment",
+  });
+  return order;
+};
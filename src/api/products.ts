@@ -0,0 +1,230 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+import { CURRENCY_CODES, CurrencyCode } from "@/lib/currency";
+import type { StockReason } from "./inventory";
+
+export interface ProductImage {
+  id: string;
+  url: string;
+  altText?: string;
+  isPrimary?: boolean;
+  productId: string;
+}
+
+// e.g. { name: "Size", values: ["S", "M", "L"] }
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  sku?: string;
+  // Option name to chosen value, with an entry for every product option
+  options: Record<string, string>;
+  // Overrides the product price, in the product currency
+  price?: number;
+  stock: number;
+  // One of the product's images
+  imageId?: string;
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  description: string;
+  price: number | string;
+  // Missing on older products, which are priced in the store's default currency
+  currency?: CurrencyCode;
+  categoryId?: string;
+  // Name of the category, kept in step by the server for display and coupon
+  // matching
+  category: string | null;
+  stock: number;
+  // In kilograms, for weight-based shipping
+  weight?: number;
+  // Alert when stock falls to this level; LOW_STOCK_THRESHOLD when unset
+  lowStockThreshold?: number;
+  images: ProductImage[];
+  // Empty for products sold without variants
+  options: ProductOption[];
+  variants: ProductVariant[];
+  createdAt?: string;
+}
+
+// At or below this many units a product counts as low on stock, unless the
+// product sets its own threshold
+export const LOW_STOCK_THRESHOLD = 10;
+
+export const STOCK_FILTERS = ["in_stock", "low_stock", "out_of_stock"] as const;
+export type StockFilter = (typeof STOCK_FILTERS)[number];
+
+export type ProductSortField = "name" | "price" | "category" | "stock" | "createdAt";
+
+export interface ProductListParams {
+  page: number;
+  limit: number;
+  search?: string;
+  // Includes products in the category's subcategories
+  categoryId?: string;
+  stock?: StockFilter;
+  sortBy?: ProductSortField;
+  sortOrder?: "asc" | "desc";
+}
+
+export interface ProductPage {
+  products: Product[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Applied to every selected product in one request
+export type BulkProductAction =
+  | { type: "delete" }
+  | { type: "category"; categoryId: string }
+  // Adds to current stock; negative amounts remove units, stopping at zero.
+  // Recorded in each product's stock ledger with the given reason.
+  | { type: "stock"; amount: number; reason: StockReason }
+  // +10 raises prices by 10%, -10 lowers them by 10%
+  | { type: "price"; percent: number };
+
+export const productImageSchema = z.object({
+  id: z.coerce.string(),
+  url: z.string(),
+  altText: z.string().nullish(),
+  isPrimary: z.boolean().nullish(),
+  productId: z.coerce.string().optional(),
+}) as ResponseSchema<ProductImage>;
+
+export const productOptionSchema = z.object({
+  name: z.string(),
+  values: z.array(z.string()),
+}) as ResponseSchema<ProductOption>;
+
+export const productVariantSchema = z.object({
+  id: z.coerce.string(),
+  sku: z.string().nullish(),
+  options: z.record(z.string(), z.string()),
+  price: z.coerce.number().nullish(),
+  stock: z.coerce.number().default(0),
+  imageId: z.coerce.string().nullish(),
+}) as ResponseSchema<ProductVariant>;
+
+export const productSchema = z.object({
+  id: z.coerce.string(),
+  name: z.string(),
+  description: z.string().default(""),
+  price: z.union([z.number(), z.string()]),
+  currency: z.enum(CURRENCY_CODES).nullish().catch(undefined),
+  categoryId: z.coerce.string().nullish(),
+  category: z.string().nullish(),
+  stock: z.coerce.number().default(0),
+  weight: z.coerce.number().nonnegative().nullish().catch(undefined),
+  lowStockThreshold: z.coerce.number().int().nonnegative().nullish().catch(undefined),
+  images: z.array(productImageSchema).nullish().transform((images) => images ?? []),
+  options: z.array(productOptionSchema).nullish().transform((options) => options ?? []),
+  variants: z.array(productVariantSchema).nullish().transform((variants) => variants ?? []),
+  createdAt: z.string().nullish(),
+}) as ResponseSchema<Product>;
+
+// Catalog reads are public so visitors can browse without signing in
+export const getProducts = async () => {
+  const { productDetails } = await request({
+    method: "GET",
+    url: "/item/product-details",
+    skipAuth: true,
+    schema: z.object({ productDetails: z.array(productSchema) }),
+    errorMessage: "Failed to fetch products",
+  });
+  return productDetails;
+};
+
+export const getProduct = async (id: string) => {
+  const { productDetails } = await request({
+    method: "GET",
+    url: `/item/item-details/${id}`,
+    skipAuth: true,
+    schema: z.object({ productDetails: productSchema }),
+    errorMessage: "Failed to load product",
+  });
+  return productDetails;
+};
+
+// Paged, filtered and sorted on the server for the admin catalog table
+export const getAdminProducts = async (params: ProductListParams): Promise<ProductPage> =>
+  request({
+    method: "GET",
+    url: "/item/admin-products",
+    params,
+    schema: z.object({
+      products: z.array(productSchema),
+      total: z.coerce.number(),
+      page: z.coerce.number(),
+      limit: z.coerce.number(),
+    }) as ResponseSchema<ProductPage>,
+    errorMessage: "Failed to load products",
+  });
+
+// Resolves to the number of products changed or deleted
+export const bulkUpdateProducts = async (ids: string[], action: BulkProductAction) => {
+  const { affected } = await request({
+    method: "POST",
+    url: "/item/bulk-update",
+    data: { ids, action },
+    schema: z.object({ affected: z.coerce.number() }),
+    errorMessage: "Failed to update products",
+  });
+  return affected;
+};
+
+export const createProduct = async (formData: FormData) =>
+  request({
+    method: "POST",
+    url: "/item/add-products",
+    data: formData,
+    headers: { "Content-Type": "multipart/form-data" },
+    schema: productSchema,
+    errorMessage: "Failed to add product",
+  });
+
+export const updateProduct = async (id: string, changes: FormData | Partial<Product>) => {
+  const { updatedProduct } = await request({
+    method: "PUT",
+    url: `/item/update-products/${id}`,
+    data: changes,
+    headers: changes instanceof FormData ? { "Content-Type": "multipart/form-data" } : undefined,
+    schema: z.object({ updatedProduct: productSchema }),
+    errorMessage: "Failed to update product",
+  });
+  return updatedProduct;
+};
+
+// Stores the file before the product is saved; the product then lists the
+// returned image in its image manifest. Unclaimed uploads are cleaned up by
+// the server.
+export const uploadProductImage = async (file: File, onProgress?: (percent: number) => void) => {
+  const formData = new FormData();
+  formData.append("image", file);
+  const { image } = await request({
+    method: "POST",
+    url: "/item/upload-image",
+    data: formData,
+    headers: { "Content-Type": "multipart/form-data" },
+    onUploadProgress: (event) => {
+      if (event.total) onProgress?.(Math.round((event.loaded / event.total) * 100));
+    },
+    schema: z.object({ image: productImageSchema }),
+    errorMessage: "Failed to upload image",
+  });
+  return image;
+};
+
+export const deleteProduct = async (id: string) => {
+  await request({
+    method: "DELETE",
+    url: `/item/delete-products/${id}`,
+    schema: z.unknown(),
+    errorMessage: "Failed to delete product",
+  });
+};
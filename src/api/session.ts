@@ -0,0 +1,120 @@
+import { jwtDecode } from "jwt-decode";
+import { setAuthHandlers } from "./client";
+import { refreshSession, User } from "./auth";
+
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const USER_KEY = "user";
+
+interface DecodedToken {
+  exp: number;
+}
+
+export const tokenStorage = {
+  getAccessToken: () => localStorage.getItem(ACCESS_TOKEN_KEY),
+  getRefreshToken: () => localStorage.getItem(REFRESH_TOKEN_KEY),
+  getUser: (): User | null => {
+    const savedUser = localStorage.getItem(USER_KEY);
+    return savedUser ? JSON.parse(savedUser) : null;
+  },
+  save: (tokens: { accessToken: string; refreshToken?: string }, user?: User) => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+    if (tokens.refreshToken) {
+      localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    }
+    if (user) {
+      localStorage.setItem(USER_KEY, JSON.stringify(user));
+    }
+  },
+  clear: () => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+  },
+};
+
+// Throws for tokens that are not JWTs
+export const isTokenExpired = (token: string) => {
+  const decoded = jwtDecode<DecodedToken>(token);
+  return decoded.exp < Date.now() / 1000;
+};
+
+type SessionExpiredListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+// Notified when the session can no longer be renewed; returns an unsubscribe
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+const expireSession = () => {
+  tokenStorage.clear();
+  sessionExpiredListeners.forEach((listener) => listener());
+};
+
+// Shared by every caller that needs a new token while a refresh is running
+let refreshInFlight: Promise<string | null> | null = null;
+
+const runRefresh = async (): Promise<string | null> => {
+  const refreshToken = tokenStorage.getRefreshToken();
+  if (!refreshToken) {
+    expireSession();
+    return null;
+  }
+
+  try {
+    const tokens = await refreshSession(refreshToken);
+    tokenStorage.save(tokens);
+    return tokens.accessToken;
+  } catch (error) {
+    console.error("Token refresh failed", error);
+    expireSession();
+    return null;
+  }
+};
+
+// Exchanges the stored refresh token for a new pair, at most once at a time
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = runRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+export const getValidAccessToken = async (): Promise<string | null> => {
+  if (refreshInFlight) return refreshInFlight;
+
+  const accessToken = tokenStorage.getAccessToken();
+  if (!accessToken) return null;
+
+  try {
+    if (isTokenExpired(accessToken)) {
+      return await refreshAccessToken();
+    }
+    return accessToken;
+  } catch (error) {
+    console.error("Token validation failed", error);
+    return null;
+  }
+};
+
+const recoverFromUnauthorized = async (rejectedToken: string) => {
+  if (refreshInFlight) return refreshInFlight;
+
+  // Another request already renewed the token since this one was sent
+  const accessToken = tokenStorage.getAccessToken();
+  if (accessToken && accessToken !== rejectedToken) return accessToken;
+
+  return refreshAccessToken();
+};
+
+setAuthHandlers({
+  resolveAccessToken: getValidAccessToken,
+  recoverFromUnauthorized,
+});
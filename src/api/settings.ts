@@ -0,0 +1,184 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+import { CURRENCY_CODES, CurrencyCode } from "@/lib/currency";
+import { ExchangeRates } from "@/lib/money";
+
+export interface SocialLinks {
+  facebook?: string;
+  instagram?: string;
+  twitter?: string;
+}
+
+// Message formats with {{placeholder}} tokens, rendered by lib/whatsapp
+export interface WhatsAppTemplates {
+  order: string;
+  buyNow: string;
+}
+
+// Sends shoppers from a country to a dedicated number
+export interface WhatsAppRoute {
+  // ISO 3166-1 alpha-2 code, e.g. "AE"
+  country: string;
+  phoneNumber: string;
+}
+
+export const SHIPPING_RATE_TYPES = ["flat", "weight"] as const;
+
+export type ShippingRateType = (typeof SHIPPING_RATE_TYPES)[number];
+
+// Amounts are in the store's default currency
+export interface ShippingZone {
+  name: string;
+  // ISO 3166-1 alpha-2 codes
+  countries: string[];
+  rateType: ShippingRateType;
+  // The whole fee for flat rates, the base fee for weight-based ones
+  fee: number;
+  perKg: number;
+  // Orders at or above this subtotal ship free
+  freeOver?: number;
+}
+
+export interface TaxRule {
+  // ISO 3166-1 alpha-2 code
+  country: string;
+  // Matched against the address region; blank covers the whole country
+  region?: string;
+  // Percentage, e.g. 5 for 5%
+  rate: number;
+}
+
+export interface StoreSettings {
+  storeName: string;
+  logoUrl?: string;
+  contactEmail?: string;
+  whatsappNumber: string;
+  whatsappTemplates: WhatsAppTemplates;
+  whatsappRoutes: WhatsAppRoute[];
+  defaultCurrency: CurrencyCode;
+  // Relative to defaultCurrency; shoppers can only switch to listed currencies
+  exchangeRates: ExchangeRates;
+  // Percentage, e.g. 5 for 5%; used where no tax rule matches
+  taxRate: number;
+  taxRules: TaxRule[];
+  // Whether catalog prices already contain tax
+  pricesIncludeTax: boolean;
+  // Flat fee and threshold used where no shipping zone matches
+  shippingFee: number;
+  freeShippingOver?: number;
+  shippingZones: ShippingZone[];
+  socialLinks: SocialLinks;
+}
+
+export const DEFAULT_WHATSAPP_TEMPLATES: WhatsAppTemplates = {
+  order: [
+    "Hello {{storeName}}, I have placed order #{{orderNumber}}:",
+    "",
+    "{{items}}",
+    "",
+    "Subtotal: {{subtotal}}",
+    "Shipping: {{shipping}}",
+    "Discount: {{discount}}",
+    "Total: {{total}}",
+    "",
+    "Name: {{customerName}}",
+    "Phone: {{customerPhone}}",
+    "Deliver to: {{address}}",
+    "",
+    "Order details: {{orderLink}}",
+  ].join("\n"),
+  buyNow: [
+    "Hello {{storeName}}, I would like to buy:",
+    "",
+    "{{items}}",
+    "",
+    "Total: {{total}}",
+    "Name: {{customerName}}",
+  ].join("\n"),
+};
+
+export const DEFAULT_STORE_SETTINGS: StoreSettings = {
+  storeName: "DropShop",
+  whatsappNumber: "",
+  whatsappTemplates: DEFAULT_WHATSAPP_TEMPLATES,
+  whatsappRoutes: [],
+  defaultCurrency: "USD",
+  exchangeRates: {},
+  taxRate: 0,
+  taxRules: [],
+  pricesIncludeTax: false,
+  shippingFee: 0,
+  shippingZones: [],
+  socialLinks: {},
+};
+
+export const storeSettingsSchema = z.object({
+  storeName: z.string().min(1).catch(DEFAULT_STORE_SETTINGS.storeName),
+  logoUrl: z.string().nullish(),
+  contactEmail: z.string().nullish(),
+  whatsappNumber: z.string().catch(""),
+  whatsappTemplates: z
+    .object({
+      order: z.string().min(1).catch(DEFAULT_WHATSAPP_TEMPLATES.order),
+      buyNow: z.string().min(1).catch(DEFAULT_WHATSAPP_TEMPLATES.buyNow),
+    })
+    .catch(DEFAULT_WHATSAPP_TEMPLATES),
+  whatsappRoutes: z
+    .array(z.object({ country: z.string().toUpperCase(), phoneNumber: z.string() }))
+    .catch([]),
+  defaultCurrency: z.enum(CURRENCY_CODES).catch(DEFAULT_STORE_SETTINGS.defaultCurrency),
+  exchangeRates: z.record(z.enum(CURRENCY_CODES), z.coerce.number().positive()).catch({}),
+  taxRate: z.coerce.number().min(0).catch(0),
+  taxRules: z
+    .array(
+      z.object({
+        country: z.string().toUpperCase(),
+        region: z.string().nullish(),
+        rate: z.coerce.number().min(0),
+      })
+    )
+    .catch([]),
+  pricesIncludeTax: z.boolean().catch(false),
+  shippingFee: z.coerce.number().min(0).catch(0),
+  freeShippingOver: z.coerce.number().positive().nullish().catch(undefined),
+  shippingZones: z
+    .array(
+      z.object({
+        name: z.string(),
+        countries: z.array(z.string().toUpperCase()).catch([]),
+        rateType: z.enum(SHIPPING_RATE_TYPES).catch("flat"),
+        fee: z.coerce.number().min(0).catch(0),
+        perKg: z.coerce.number().min(0).catch(0),
+        freeOver: z.coerce.number().positive().nullish(),
+      })
+    )
+    .catch([]),
+  socialLinks: z
+    .object({
+      facebook: z.string().nullish(),
+      instagram: z.string().nullish(),
+      twitter: z.string().nullish(),
+    })
+    .catch({}),
+}) as ResponseSchema<StoreSettings>;
+
+export const getStoreSettings = async () => {
+  const { settings } = await request({
+    method: "GET",
+    url: "/settings/store-settings",
+    schema: z.object({ settings: storeSettingsSchema }),
+    errorMessage: "Failed to load store settings",
+  });
+  return settings;
+};
+
+export const updateStoreSettings = async (changes: Partial<StoreSettings>) => {
+  const { settings } = await request({
+    method: "PUT",
+    url: "/settings/update-settings",
+    data: changes,
+    schema: z.object({ settings: storeSettingsSchema }),
+    errorMessage: "Failed to save store settings",
+  });
+  return settings;
+};
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { request, ResponseSchema } from "./client";
+import { Product, productSchema } from "./products";
+
+export interface WishlistItem {
+  product: Product;
+  addedAt: string;
+}
+
+const wishlistSchema = z.object({
+  wishlist: z.object({
+    items: z
+      .array(
+        z.object({
+          product: productSchema,
+          addedAt: z.string().catch(() => new Date().toISOString()),
+        })
+      )
+      .default([]),
+  }),
+}) as ResponseSchema<{ wishlist: { items: WishlistItem[] } }>;
+
+export const getWishlist = async () => {
+  const { wishlist } = await request({
+    method: "GET",
+    url: "/wishlist/my-wishlist",
+    schema: wishlistSchema,
+    errorMessage: "Failed to load your wishlist",
+  });
+  return wishlist.items;
+};
+
+// The server only needs product ids; it returns items with current product data
+export const saveWishlist = async (productIds: string[]) => {
+  const { wishlist } = await request({
+    method: "PUT",
+    url: "/wishlist/update-wishlist",
+    data: { productIds },
+    schema: wishlistSchema,
+    errorMessage: "Failed to save your wishlist",
+  });
+  return wishlist.items;
+};
@@ -0,0 +1,239 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Product, useProducts } from "@/contexts/ProductContext";
+import { STOCK_REASONS, StockMovement } from "@/api/inventory";
+import { getErrorMessage } from "@/api/client";
+import { STOCK_REASON_DIRECTIONS, STOCK_REASON_LABELS } from "@/lib/inventory";
+import { describeVariant, getVariant, hasVariants } from "@/lib/variants";
+
+const adjustStockSchema = z
+  .object({
+    variantId: z.string(),
+    reason: z.enum(STOCK_REASONS),
+    quantity: z.string().trim(),
+    note: z.string().trim().max(200, "Keep notes under 200 characters"),
+  })
+  .superRefine((values, ctx) => {
+    const quantity = Number(values.quantity);
+    // Corrections are signed; other reasons already say which way stock moves
+    const valid =
+      Number.isInteger(quantity) &&
+      (STOCK_REASON_DIRECTIONS[values.reason] === 0 ? quantity !== 0 : quantity > 0);
+    if (!valid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["quantity"],
+        message:
+          STOCK_REASON_DIRECTIONS[values.reason] === 0
+            ? "Enter a whole number other than zero"
+            : "Enter a whole number of units",
+      });
+    }
+  });
+
+type AdjustStockFormValues = z.infer<typeof adjustStockSchema>;
+
+const getChange = (values: Pick<AdjustStockFormValues, "reason" | "quantity">) => {
+  const quantity = Number(values.quantity) || 0;
+  const direction = STOCK_REASON_DIRECTIONS[values.reason];
+  return direction === 0 ? quantity : direction * Math.abs(quantity);
+};
+
+interface AdjustStockDialogProps {
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+  onAdjusted?: (product: Product, movement: StockMovement) => void;
+}
+
+const AdjustStockDialog = ({ product, onOpenChange, onAdjusted }: AdjustStockDialogProps) => {
+  const { toast } = useToast();
+  const { adjustStock } = useProducts();
+  const withVariants = product ? hasVariants(product) : false;
+  const form = useForm<AdjustStockFormValues>({
+    resolver: zodResolver(
+      adjustStockSchema.refine((values) => !withVariants || values.variantId, {
+        path: ["variantId"],
+        message: "Choose a variant",
+      })
+    ),
+    defaultValues: { variantId: "", reason: "received", quantity: "", note: "" },
+  });
+
+  useEffect(() => {
+    if (product) {
+      form.reset({
+        variantId: product.variants.length === 1 ? product.variants[0].id : "",
+        reason: "received",
+        quantity: "",
+        note: "",
+      });
+    }
+  }, [product, form]);
+
+  const [variantId, reason, quantity] = form.watch(["variantId", "reason", "quantity"]);
+  const variant = product ? getVariant(product, variantId) : undefined;
+  const currentStock = withVariants ? variant?.stock : product?.stock;
+  const change = getChange({ reason, quantity });
+
+  const onSubmit = async (values: AdjustStockFormValues) => {
+    if (!product) return;
+    try {
+      const result = await adjustStock(product.id, {
+        change: getChange(values),
+        reason: values.reason,
+        note: values.note || undefined,
+        variantId: values.variantId || undefined,
+      });
+      onAdjusted?.(result.product, result.movement);
+      onOpenChange(false);
+      toast({
+        title: "Stock adjusted",
+        description: `${product.name} now has ${result.movement.balance} in stock.`,
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to adjust stock"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={product !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Adjust stock</DialogTitle>
+          <DialogDescription>{product?.name}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {withVariants && (
+              <FormField
+                control={form.control}
+                name="variantId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Variant</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a variant" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {product.variants.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {describeVariant(product, option)} · {option.stock} in stock
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {STOCK_REASONS.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {STOCK_REASON_LABELS[option]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Units</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="1" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. Supplier invoice #1042" />
+                  </FormControl>
+                  <FormDescription>Shown in the product's stock history.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {currentStock !== undefined && change !== 0 && (
+              <p className="text-sm text-gray-600">
+                Stock goes from {currentStock} to {Math.max(0, currentStock + change)}.
+              </p>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : "Adjust stock"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AdjustStockDialog;
@@ -2,14 +2,18 @@
 import { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Package, Users, Settings, LogOut, Menu, X, Home } from "lucide-react";
+import { Package, Users, Settings, LogOut, Menu, X, Home, ShoppingBag, Tag, AlertTriangle, FolderTree } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useProducts } from "@/contexts/ProductContext";
+import { getLowStockProducts } from "@/lib/inventory";
 import { toast } from "sonner";
 
 const AdminNavbar = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { logout } = useAuth();
   const navigate = useNavigate();
+  const { products } = useProducts();
+  const lowStockCount = getLowStockProducts(products).length;
   
   const handleLogout = () => {
     logout();
@@ -51,6 +55,35 @@ const AdminNavbar = () => {
               <Package size={16} className="mr-1" />
               Products
             </Link>
+            <Link to="/admin/categories" className="text-gray-600 hover:text-brand-600 px-3 py-2 text-sm font-medium flex items-center">
+              <FolderTree size={16} className="mr-1" />
+              Categories
+            </Link>
+            <Link to="/admin/orders" className="text-gray-600 hover:text-brand-600 px-3 py-2 text-sm font-medium flex items-center">
+              <ShoppingBag size={16} className="mr-1" />
+              Orders
+            </Link>
+            <Link to="/admin/customers" className="text-gray-600 hover:text-brand-600 px-3 py-2 text-sm font-medium flex items-center">
+              <Users size={16} className="mr-1" />
+              Customers
+            </Link>
+            <Link to="/admin/inventory" className="text-gray-600 hover:text-brand-600 px-3 py-2 text-sm font-medium flex items-center">
+              <AlertTriangle size={16} className="mr-1" />
+              Low stock
+              {lowStockCount > 0 && (
+                <span className="ml-1 bg-red-500 text-white text-xs rounded-full h-5 min-w-5 px-1.5 flex items-center justify-center">
+                  {lowStockCount}
+                </span>
+              )}
+            </Link>
+            <Link to="/admin/coupons" className="text-gray-600 hover:text-brand-600 px-3 py-2 text-sm font-medium flex items-center">
+              <Tag size={16} className="mr-1" />
+              Coupons
+            </Link>
+            <Link to="/admin/settings" className="text-gray-600 hover:text-brand-600 px-3 py-2 text-sm font-medium flex items-center">
+              <Settings size={16} className="mr-1" />
+              Settings
+            </Link>
             <Button variant="ghost" size="sm" className="text-gray-600 hover:text-red-600 flex items-center" onClick={handleLogout}>
               <LogOut size={16} className="mr-1" />
               Logout
@@ -71,10 +104,31 @@ const AdminNavbar = () => {
               <Package size={16} className="mr-2" />
               Products
             </Link>
+            <Link to="/admin/categories" className="block px-3 py-2 text-base font-medium text-gray-600 hover:text-brand-600 flex items-center">
+              <FolderTree size={16} className="mr-2" />
+              Categories
+            </Link>
+            <Link to="/admin/orders" className="block px-3 py-2 text-base font-medium text-gray-600 hover:text-brand-600 flex items-center">
+              <ShoppingBag size={16} className="mr-2" />
+              Orders
+            </Link>
             <Link to="/admin/customers" className="block px-3 py-2 text-base font-medium text-gray-600 hover:text-brand-600 flex items-center">
               <Users size={16} className="mr-2" />
               Customers
             </Link>
+            <Link to="/admin/inventory" className="block px-3 py-2 text-base font-medium text-gray-600 hover:text-brand-600 flex items-center">
+              <AlertTriangle size={16} className="mr-2" />
+              Low stock
+              {lowStockCount > 0 && (
+                <span className="ml-2 bg-red-500 text-white text-xs rounded-full h-5 min-w-5 px-1.5 flex items-center justify-center">
+                  {lowStockCount}
+                </span>
+              )}
+            </Link>
+            <Link to="/admin/coupons" className="block px-3 py-2 text-base font-medium text-gray-600 hover:text-brand-600 flex items-center">
+              <Tag size={16} className="mr-2" />
+              Coupons
+            </Link>
             <Link to="/admin/settings" className="block px-3 py-2 text-base font-medium text-gray-600 hover:text-brand-600 flex items-center">
               <Settings size={16} className="mr-2" />
               Settings
@@ -0,0 +1,23 @@
+import { useMemo } from "react";
+import { SelectItem } from "@/components/ui/select";
+import { useCategories } from "@/contexts/CategoryContext";
+import { buildCategoryTree, flattenCategoryTree } from "@/lib/categories";
+
+// Every category as an indented <SelectItem> valued by id, for use inside a
+// <SelectContent>
+const CategorySelectItems = () => {
+  const { categories } = useCategories();
+  const options = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+
+  return (
+    <>
+      {options.map((category) => (
+        <SelectItem key={category.id} value={category.id}>
+          <span style={{ paddingLeft: `${category.depth}rem` }}>{category.name}</span>
+        </SelectItem>
+      ))}
+    </>
+  );
+};
+
+export default CategorySelectItems;
@@ -0,0 +1,40 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { CURRENCIES, CurrencyCode } from "@/lib/currency";
+
+interface CurrencySwitcherProps {
+  className?: string;
+}
+
+const CurrencySwitcher = ({ className }: CurrencySwitcherProps) => {
+  const { currency, availableCurrencies, setCurrency } = useCurrency();
+
+  if (availableCurrencies.length <= 1) {
+    return null;
+  }
+
+  return (
+    <Select value={currency} onValueChange={(value) => setCurrency(value as CurrencyCode)}>
+      <SelectTrigger className={className ?? "w-[100px]"} aria-label="Display currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCIES.filter((option) => availableCurrencies.includes(option.code)).map(
+          (option) => (
+            <SelectItem key={option.code} value={option.code}>
+              {option.symbol} {option.code}
+            </SelectItem>
+          )
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CurrencySwitcher;
@@ -1,13 +1,23 @@
 
 import { Link } from "react-router-dom";
+import { Facebook, Instagram, Twitter } from "lucide-react";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
 
 const Footer = () => {
+  const { settings } = useStoreSettings();
+  const { socialLinks } = settings;
+  const socials = [
+    { href: socialLinks.facebook, label: "Facebook", Icon: Facebook },
+    { href: socialLinks.instagram, label: "Instagram", Icon: Instagram },
+    { href: socialLinks.twitter, label: "Twitter", Icon: Twitter },
+  ].filter((social) => social.href);
+
   return (
     <footer className="bg-gray-100">
       <div className="container mx-auto px-4 py-8">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           <div>
-            <h3 className="text-lg font-semibold mb-4">Dropship Cart Hub</h3>
+            <h3 className="text-lg font-semibold mb-4">{settings.storeName}</h3>
             <p className="text-gray-600">
               Your one-stop solution for dropshipping business management.
             </p>
@@ -35,13 +45,33 @@ const Footer = () => {
           <div>
             <h3 className="text-lg font-semibold mb-4">Contact</h3>
             <p className="text-gray-600">
-              Email: support@dropshiphub.com<br />
-              Phone: +1 123-456-7890
+              {settings.contactEmail && (
+                <>
+                  Email: {settings.contactEmail}<br />
+                </>
+              )}
+              {settings.whatsappNumber && <>WhatsApp: {settings.whatsappNumber}</>}
             </p>
+            {socials.length > 0 && (
+              <div className="flex space-x-3 mt-4">
+                {socials.map(({ href, label, Icon }) => (
+                  <a
+                    key={label}
+                    href={href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    aria-label={label}
+                    className="text-gray-600 hover:text-brand-600"
+                  >
+                    <Icon size={20} />
+                  </a>
+                ))}
+              </div>
+            )}
           </div>
         </div>
         <div className="border-t border-gray-200 mt-8 pt-6 text-center text-gray-500 text-sm">
-          &copy; {new Date().getFullYear()} Dropship Cart Hub. All rights reserved.
+          &copy; {new Date().getFullYear()} {settings.storeName}. All rights reserved.
         </div>
       </div>
     </footer>
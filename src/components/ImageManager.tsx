@@ -0,0 +1,275 @@
+import { ChangeEvent, Dispatch, DragEvent, SetStateAction, useRef, useState } from "react";
+import { ArrowLeft, ArrowRight, GripVertical, RotateCw, Star, Upload, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/components/ui/use-toast";
+import * as productsApi from "@/api/products";
+import { getErrorMessage } from "@/api/client";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  MAX_PRODUCT_IMAGES,
+  ManagedImage,
+  ensurePrimary,
+  optimizeImage,
+  validateImageFile,
+} from "@/lib/images";
+
+interface ImageManagerProps {
+  images: ManagedImage[];
+  // Takes updaters because uploads finish after later edits were made
+  onChange: Dispatch<SetStateAction<ManagedImage[]>>;
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+const ImageManager = ({ images, onChange }: ImageManagerProps) => {
+  const { toast } = useToast();
+  // Original files by key, kept so failed uploads can be retried
+  const files = useRef(new Map<string, File>());
+  const [dragKey, setDragKey] = useState<string | null>(null);
+
+  const update = (key: string, changes: Partial<ManagedImage>) =>
+    onChange((prev) => prev.map((image) => (image.key === key ? { ...image, ...changes } : image)));
+
+  const upload = async (key: string, file: File) => {
+    update(key, { status: "optimizing", progress: 0, error: undefined });
+    try {
+      // A file the browser can't decode is still worth sending as is
+      const optimized = await optimizeImage(file).catch(() => file);
+      update(key, { status: "uploading" });
+      const saved = await productsApi.uploadProductImage(optimized, (progress) =>
+        update(key, { progress })
+      );
+      onChange((prev) =>
+        prev.map((image) => {
+          if (image.key !== key) return image;
+          URL.revokeObjectURL(image.url);
+          return { ...image, id: saved.id, url: saved.url, status: "uploaded", progress: 100 };
+        })
+      );
+      files.current.delete(key);
+    } catch (err) {
+      console.error("Error uploading image:", err);
+      update(key, { status: "error", error: getErrorMessage(err, "Upload failed") });
+    }
+  };
+
+  const addFiles = (selected: File[]) => {
+    const room = MAX_PRODUCT_IMAGES - images.length;
+    if (selected.length > room) {
+      toast({
+        title: "Too many images",
+        description: `You can upload up to ${MAX_PRODUCT_IMAGES} images maximum`,
+        variant: "destructive",
+      });
+    }
+
+    const accepted: { key: string; file: File }[] = [];
+    selected.slice(0, Math.max(room, 0)).forEach((file, index) => {
+      const problem = validateImageFile(file);
+      if (problem) {
+        toast({ title: "Image skipped", description: problem, variant: "destructive" });
+        return;
+      }
+      accepted.push({ key: `local-${Date.now()}-${index}`, file });
+    });
+    if (accepted.length === 0) return;
+
+    onChange((prev) =>
+      ensurePrimary([
+        ...prev,
+        ...accepted.map(({ key, file }) => ({
+          key,
+          url: URL.createObjectURL(file),
+          altText: "",
+          isPrimary: false,
+          status: "optimizing" as const,
+          progress: 0,
+        })),
+      ])
+    );
+    accepted.forEach(({ key, file }) => {
+      files.current.set(key, file);
+      upload(key, file);
+    });
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    addFiles(selected);
+  };
+
+  const removeImage = (image: ManagedImage) => {
+    if (image.url.startsWith("blob:")) URL.revokeObjectURL(image.url);
+    files.current.delete(image.key);
+    onChange((prev) => ensurePrimary(prev.filter((item) => item.key !== image.key)));
+  };
+
+  const setPrimary = (key: string) =>
+    onChange((prev) => prev.map((image) => ({ ...image, isPrimary: image.key === key })));
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= images.length) return;
+    onChange((prev) => moveItem(prev, from, to));
+  };
+
+  const handleDrop = (e: DragEvent, targetIndex?: number) => {
+    e.preventDefault();
+    if (e.dataTransfer.files.length > 0) {
+      addFiles(Array.from(e.dataTransfer.files));
+    } else if (dragKey !== null) {
+      const from = images.findIndex((image) => image.key === dragKey);
+      move(from, targetIndex ?? images.length - 1);
+    }
+    setDragKey(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => handleDrop(e)}
+      >
+        {images.map((image, index) => (
+          <div
+            key={image.key}
+            draggable
+            onDragStart={() => setDragKey(image.key)}
+            onDragEnd={() => setDragKey(null)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.stopPropagation();
+              handleDrop(e, index);
+            }}
+            className={`rounded-md border bg-white ${
+              image.isPrimary ? "ring-2 ring-brand-500" : ""
+            } ${dragKey === image.key ? "opacity-50" : ""}`}
+          >
+            <div className="relative h-32 overflow-hidden rounded-t-md">
+              <img
+                src={image.url}
+                alt={image.altText || `Product image ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+              <GripVertical
+                size={16}
+                className="absolute top-1 left-1 text-white drop-shadow cursor-grab"
+                aria-hidden
+              />
+              <button
+                type="button"
+                onClick={() => removeImage(image)}
+                className="absolute top-1 right-1 bg-white rounded-full p-1 shadow-sm hover:bg-gray-100"
+                aria-label={`Remove image ${index + 1}`}
+              >
+                <X size={16} />
+              </button>
+              {image.isPrimary && (
+                <span className="absolute bottom-1 left-1 bg-blue-500 text-white text-xs px-2 py-1 rounded">
+                  Primary
+                </span>
+              )}
+              {image.status !== "uploaded" && (
+                <div className="absolute inset-x-0 bottom-0 bg-white/90 p-2 space-y-1">
+                  {image.status === "error" ? (
+                    <div className="flex items-center justify-between gap-2 text-xs text-red-700">
+                      <span className="truncate" title={image.error}>
+                        {image.error}
+                      </span>
+                      {files.current.has(image.key) && (
+                        <button
+                          type="button"
+                          onClick={() => upload(image.key, files.current.get(image.key))}
+                          className="flex items-center gap-1 font-medium hover:underline"
+                        >
+                          <RotateCw size={12} />
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  ) : (
+                    <>
+                      <Progress value={image.progress} className="h-1.5" />
+                      <p className="text-xs text-gray-600">
+                        {image.status === "optimizing"
+                          ? "Optimizing..."
+                          : `Uploading ${image.progress}%`}
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+            <div className="p-2 space-y-2">
+              <Input
+                value={image.altText}
+                onChange={(e) => update(image.key, { altText: e.target.value })}
+                placeholder="Alt text"
+                aria-label={`Alt text for image ${index + 1}`}
+                className="h-8 text-xs"
+              />
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => setPrimary(image.key)}
+                  disabled={image.isPrimary}
+                  className="flex items-center gap-1 text-xs text-gray-600 hover:text-brand-600 disabled:text-brand-600"
+                >
+                  <Star size={14} className={image.isPrimary ? "fill-current" : ""} />
+                  {image.isPrimary ? "Primary" : "Make primary"}
+                </button>
+                <div className="flex">
+                  <button
+                    type="button"
+                    onClick={() => move(index, index - 1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                    aria-label={`Move image ${index + 1} earlier`}
+                  >
+                    <ArrowLeft size={14} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(index, index + 1)}
+                    disabled={index === images.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                    aria-label={`Move image ${index + 1} later`}
+                  >
+                    <ArrowRight size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {images.length < MAX_PRODUCT_IMAGES && (
+          <label className="border-2 border-dashed border-gray-300 rounded-md flex flex-col items-center justify-center h-32 cursor-pointer hover:bg-gray-50">
+            <Upload size={24} className="text-gray-400" />
+            <span className="mt-2 text-sm text-gray-500">Upload or drop images</span>
+            <input
+              type="file"
+              accept={ACCEPTED_IMAGE_TYPES.join(",")}
+              className="hidden"
+              onChange={handleFileChange}
+              multiple
+            />
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Up to {MAX_PRODUCT_IMAGES} JPEG, PNG, WebP or GIF images. Drag to reorder. Photos are
+        resized and converted to WebP before upload. The primary image is the product thumbnail.
+      </p>
+    </div>
+  );
+};
+
+export default ImageManager;
@@ -2,13 +2,16 @@
 import { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { ShoppingCart, Menu, X, ShieldAlert } from "lucide-react";
+import { Heart, ShoppingCart, Menu, X, ShieldAlert } from "lucide-react";
 import { UserMenu } from "./UserMenu";
+import CurrencySwitcher from "./CurrencySwitcher";
 import { useAuth } from "@/contexts/AuthContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
 
 const NavbarWithAuth = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { user, logout } = useAuth();
+  const { settings } = useStoreSettings();
   const navigate = useNavigate();
 
   const handleLogout = () => {
@@ -21,8 +24,11 @@ const NavbarWithAuth = () => {
     <nav className="bg-white shadow-sm">
       <div className="container mx-auto px-4">
         <div className="flex justify-between items-center h-16">
-          <Link to="/" className="font-bold text-xl text-brand-600">
-            DropShop
+          <Link to="/" className="flex items-center gap-2 font-bold text-xl text-brand-600">
+            {settings.logoUrl && (
+              <img src={settings.logoUrl} alt="" className="h-8 w-8 object-contain" />
+            )}
+            {settings.storeName}
           </Link>
 
           {/* Desktop navigation */}
@@ -36,13 +42,17 @@ const NavbarWithAuth = () => {
           </div>
 
           <div className="hidden md:flex md:items-center md:space-x-4">
-            {user && (
-              <Link to="/cart">
-                <Button variant="ghost" size="icon">
-                  <ShoppingCart className="h-5 w-5" />
-                </Button>
-              </Link>
-            )}
+            <CurrencySwitcher />
+            <Link to="/wishlist">
+              <Button variant="ghost" size="icon" aria-label="Wishlist">
+                <Heart className="h-5 w-5" />
+              </Button>
+            </Link>
+            <Link to="/cart">
+              <Button variant="ghost" size="icon">
+                <ShoppingCart className="h-5 w-5" />
+              </Button>
+            </Link>
             <UserMenu />
           </div>
 
@@ -70,9 +80,18 @@ const NavbarWithAuth = () => {
             <Link to="/products" className="block px-3 py-2 text-gray-600 hover:text-brand-600">
               Products
             </Link>
+            <Link to="/cart" className="block px-3 py-2 text-gray-600 hover:text-brand-600">
+              Cart
+            </Link>
+            <Link to="/wishlist" className="block px-3 py-2 text-gray-600 hover:text-brand-600">
+              Wishlist
+            </Link>
+            <div className="px-3 py-2">
+              <CurrencySwitcher className="w-full" />
+            </div>
             {user && (
-              <Link to="/cart" className="block px-3 py-2 text-gray-600 hover:text-brand-600">
-                Cart
+              <Link to="/orders" className="block px-3 py-2 text-gray-600 hover:text-brand-600">
+                My Orders
               </Link>
             )}
             {user && user.role === "admin" && (
@@ -83,6 +102,9 @@ const NavbarWithAuth = () => {
                 <Link to="/admin/dashboard" className="block px-3 py-2 text-gray-600 hover:text-brand-600">
                   Dashboard
                 </Link>
+                <Link to="/admin/orders" className="block px-3 py-2 text-gray-600 hover:text-brand-600">
+                  Orders
+                </Link>
                 <Link to="/admin/add-product" className="block px-3 py-2 text-gray-600 hover:text-brand-600">
                   Add Product
                 </Link>
@@ -0,0 +1,25 @@
+import { OrderStatus } from "@/contexts/OrderContext";
+
+const statusStyles: Record<OrderStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  confirmed: "bg-blue-100 text-blue-800",
+  shipped: "bg-indigo-100 text-indigo-800",
+  delivered: "bg-green-100 text-green-800",
+  cancelled: "bg-red-100 text-red-800",
+};
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+}
+
+const OrderStatusBadge = ({ status }: OrderStatusBadgeProps) => {
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[status]}`}
+    >
+      {status}
+    </span>
+  );
+};
+
+export default OrderStatusBadge;
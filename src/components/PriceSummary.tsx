@@ -0,0 +1,67 @@
+import { CurrencyCode } from "@/lib/currency";
+import { formatMoney } from "@/lib/money";
+import { PriceBreakdown } from "@/lib/pricing";
+
+interface PriceSummaryProps {
+  pricing: PriceBreakdown;
+  currency: CurrencyCode;
+  itemCount?: number;
+  // Before an address is known, shipping and tax use the store defaults
+  estimated?: boolean;
+}
+
+const Row = ({ label, value, className }: { label: string; value: string; className?: string }) => (
+  <div className={`flex justify-between py-2 ${className ?? ""}`}>
+    <span>{label}</span>
+    <span>{value}</span>
+  </div>
+);
+
+const PriceSummary = ({ pricing, currency, itemCount, estimated }: PriceSummaryProps) => {
+  const { subtotal, shipping, discount, tax, taxRate, taxInclusive, total } = pricing;
+  const suffix = estimated ? " (estimated)" : "";
+
+  return (
+    <>
+      <Row
+        label={itemCount === undefined ? "Subtotal" : `Subtotal (${itemCount} items)`}
+        value={formatMoney(subtotal, currency)}
+      />
+      {discount && discount.itemsDiscount > 0 && (
+        <Row
+          label={`Discount (${discount.coupon.code})`}
+          value={`−${formatMoney(discount.itemsDiscount, currency)}`}
+          className="text-green-700"
+        />
+      )}
+      <Row
+        label={`Shipping${shipping.zone ? ` · ${shipping.zone}` : ""}${suffix}`}
+        value={
+          shipping.amount === 0
+            ? shipping.freeOverThreshold
+              ? "Free"
+              : formatMoney(0, currency)
+            : formatMoney(shipping.amount, currency)
+        }
+      />
+      {discount && discount.shippingDiscount > 0 && (
+        <Row
+          label={`Free shipping (${discount.coupon.code})`}
+          value={`−${formatMoney(discount.shippingDiscount, currency)}`}
+          className="text-green-700"
+        />
+      )}
+      {taxRate > 0 && (
+        <Row
+          label={`${taxInclusive ? "Includes tax" : "Tax"} (${taxRate}%)${suffix}`}
+          value={formatMoney(tax, currency)}
+          className={taxInclusive ? "text-sm text-gray-500" : undefined}
+        />
+      )}
+      <div className="border-t border-gray-200 my-4"></div>
+      <Row label="Total" value={formatMoney(total, currency)} className="font-semibold" />
+    </>
+  );
+};
+
+export default PriceSummary;
@@ -2,8 +2,11 @@ import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { ShoppingCart } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
-import { Product } from "@/contexts/ProductContext";
+import { Product, useProducts } from "@/contexts/ProductContext";
 import { useCart } from "@/contexts/CartContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { hasVariants } from "@/lib/variants";
+import WishlistButton from "./WishlistButton";
 import { Navigate } from "react-router-dom";
 
 interface ProductCardProps {
@@ -13,15 +16,36 @@ interface ProductCardProps {
 const ProductCard = ({ product }: ProductCardProps) => {
   const { toast } = useToast();
   const { addToCart } = useCart();
+  const { prefetchProduct } = useProducts();
+  const { formatPrice } = useCurrency();
   const navigate = useNavigate();
 
-  const primaryImage =
-    product.images?.find((img) => img.isPrimary)?.url ||
-    product.images?.[0]?.url;
+  const primary = product.images?.find((img) => img.isPrimary) || product.images?.[0];
+  const primaryImage = primary?.url;
 
   const handleAddToCart = (e: React.MouseEvent) => {
     e.preventDefault();
-    addToCart(product);
+    // Options are picked on the product page
+    if (hasVariants(product)) {
+      navigate(`/product/${product.id}`);
+      return;
+    }
+    if (product.stock <= 0) {
+      toast({
+        title: "Sold out",
+        description: `${product.name} is out of stock.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (addToCart(product) === 0) {
+      toast({
+        title: "No more stock",
+        description: `Your cart already holds all available units of ${product.name}.`,
+        variant: "destructive",
+      });
+      return;
+    }
     toast({
       title: "Added to cart",
       description: `${product.name} has been added to your cart.`,
@@ -35,13 +59,17 @@ const ProductCard = ({ product }: ProductCardProps) => {
   };
 
   return (
-    <div className="bg-white rounded-lg shadow-md overflow-hidden border border-gray-100 hover:shadow-lg transition-shadow duration-300">
-      <Link to={`/product/${product.id}`} className="block">
-        <div className="h-48 overflow-hidden">
+    <div
+      className="bg-white rounded-lg shadow-md overflow-hidden border border-gray-100 hover:shadow-lg transition-shadow duration-300"
+      onMouseEnter={() => prefetchProduct(product.id)}
+    >
+      <div className="relative">
+        <WishlistButton product={product} className="absolute top-2 right-2 z-10 h-8 w-8 rounded-full" />
+        <Link to={`/product/${product.id}`} className="block h-48 overflow-hidden">
           {primaryImage ? (
             <img
               src={primaryImage}
-              alt={product.name}
+              alt={primary?.altText || product.name}
               className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
               onError={(e) => {
                 (e.target as HTMLImageElement).src =
@@ -53,8 +81,8 @@ const ProductCard = ({ product }: ProductCardProps) => {
               <span className="text-gray-400">No image available</span>
             </div>
           )}
-        </div>
-      </Link>
+        </Link>
+      </div>
       <div className="p-4">
         <Link to={`/product/${product.id}`} className="block">
           <h3 className="font-semibold text-lg text-gray-900 hover:text-brand-600 transition-colors mb-1">
@@ -66,10 +94,7 @@ const ProductCard = ({ product }: ProductCardProps) => {
         </p>
         <div className="flex items-center justify-between mt-3">
           <span className="text-lg font-bold text-gray-900">
-            $
-            {typeof product.price === "string"
-              ? parseFloat(product.price).toFixed(2)
-              : product.price.toFixed(2)}
+            {formatPrice(product.price, product.currency)}
           </span>
           <div className="flex space-x-2">
               <Button
@@ -77,9 +102,10 @@ const ProductCard = ({ product }: ProductCardProps) => {
                 size="sm"
                 onClick={handleAddToCart}
                 className="hover:bg-gray-100"
+                disabled={product.stock <= 0}
               >
                 <ShoppingCart size={16} className="mr-1" />
-                Cart
+                {product.stock <= 0 ? "Sold out" : hasVariants(product) ? "Options" : "Cart"}
               </Button>
               <Button
                 size="sm"
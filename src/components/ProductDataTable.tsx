@@ -0,0 +1,576 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Edit, Package, Search, Trash2 } from "lucide-react";
+import AdjustStockDialog from "@/components/AdjustStockDialog";
+import CategorySelectItems from "@/components/CategorySelectItems";
+import SortIcon from "@/components/SortIcon";
+import StockBadge from "@/components/StockBadge";
+import TablePagination from "@/components/TablePagination";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { useProducts } from "@/contexts/ProductContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import * as productsApi from "@/api/products";
+import { BulkProductAction, Product, ProductSortField, StockFilter } from "@/api/products";
+import { STOCK_REASONS, StockReason } from "@/api/inventory";
+import { getErrorMessage } from "@/api/client";
+import { STOCK_REASON_LABELS, getLowStockThreshold } from "@/lib/inventory";
+import { formatMoney } from "@/lib/money";
+import { useDebouncedSearch } from "@/hooks/use-debounced-search";
+
+const PAGE_SIZE = 20;
+const ALL = "all";
+
+const columns: { field: ProductSortField; label: string }[] = [
+  { field: "name", label: "Product" },
+  { field: "price", label: "Price" },
+  { field: "category", label: "Category" },
+  { field: "stock", label: "Stock" },
+];
+
+const STOCK_FILTER_LABELS: Record<StockFilter, string> = {
+  in_stock: "In stock",
+  low_stock: "Low stock",
+  out_of_stock: "Out of stock",
+};
+
+// Bulk actions that need a value before they can run
+type EditAction = Exclude<BulkProductAction["type"], "delete">;
+
+const EDIT_ACTIONS: Record<EditAction, { title: string; label: string; hint: string }> = {
+  category: { title: "Change category", label: "Category", hint: "" },
+  stock: {
+    title: "Adjust stock",
+    label: "Units to add",
+    hint: "Use a negative number to remove units. Stock never goes below zero.",
+  },
+  price: {
+    title: "Change price",
+    label: "Percentage",
+    hint: "10 raises prices by 10%, -10 lowers them by 10%.",
+  },
+};
+
+interface BulkEditDialogProps {
+  action: EditAction | null;
+  count: number;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (action: BulkProductAction) => Promise<void>;
+}
+
+const BulkEditDialog = ({ action, count, onOpenChange, onSubmit }: BulkEditDialogProps) => {
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState<StockReason>("received");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setValue("");
+    setReason("received");
+  }, [action]);
+
+  const amount = Number(value);
+  const isValidAmount =
+    value !== "" &&
+    amount !== 0 &&
+    // Whole units for stock; prices can't be cut by 100% or more
+    (action === "stock" ? Number.isInteger(amount) : Number.isFinite(amount) && amount > -100);
+  const valid = action === "category" ? value !== "" : isValidAmount;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action || !valid) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit(
+        action === "category"
+          ? { type: "category", categoryId: value }
+          : action === "stock"
+            ? { type: "stock", amount, reason }
+            : { type: "price", percent: amount }
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const details = action ? EDIT_ACTIONS[action] : null;
+
+  return (
+    <Dialog open={action !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{details?.title}</DialogTitle>
+            <DialogDescription>
+              Applies to {count} selected {count === 1 ? "product" : "products"}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-value">{details?.label}</Label>
+            {action === "category" ? (
+              <Select value={value} onValueChange={setValue}>
+                <SelectTrigger id="bulk-value">
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <CategorySelectItems />
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id="bulk-value"
+                type="number"
+                step={action === "stock" ? "1" : "any"}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            )}
+            {details?.hint && <p className="text-xs text-gray-500">{details.hint}</p>}
+          </div>
+          {action === "stock" && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-reason">Reason</Label>
+              <Select value={reason} onValueChange={(next) => setReason(next as StockReason)}>
+                <SelectTrigger id="bulk-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STOCK_REASONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {STOCK_REASON_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!valid || submitting}>
+              {submitting ? "Applying..." : "Apply"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface ProductDataTableProps {
+  // Bump to reload the current page, e.g. after an import
+  refreshKey?: number;
+}
+
+const ProductDataTable = ({ refreshKey = 0 }: ProductDataTableProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { settings } = useStoreSettings();
+  const { deleteProduct, bulkUpdateProducts } = useProducts();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  // A new search starts from the first page
+  const { searchTerm, setSearchTerm, search } = useDebouncedSearch(() => setPage(1));
+  const [category, setCategory] = useState(ALL);
+  const [stockFilter, setStockFilter] = useState<StockFilter | typeof ALL>(ALL);
+  const [sortBy, setSortBy] = useState<ProductSortField>("createdAt");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  // Only rows on the current page can be selected
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editAction, setEditAction] = useState<EditAction | null>(null);
+  // Products waiting for the delete confirmation
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [adjusting, setAdjusting] = useState<Product | null>(null);
+
+  useEffect(() => {
+    // Set when a newer request replaces this one, so a slow response can't
+    // overwrite the page
+    let cancelled = false;
+
+    const fetchProducts = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await productsApi.getAdminProducts({
+          page,
+          limit: PAGE_SIZE,
+          search: search || undefined,
+          categoryId: category === ALL ? undefined : category,
+          stock: stockFilter === ALL ? undefined : stockFilter,
+          sortBy,
+          sortOrder,
+        });
+        if (cancelled) return;
+        setProducts(result.products);
+        setTotal(result.total);
+        setSelected([]);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Error fetching products:", err);
+        setError(getErrorMessage(err, "Failed to load products"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchProducts();
+    return () => {
+      cancelled = true;
+    };
+  }, [page, search, category, stockFilter, sortBy, sortOrder, reloadKey, refreshKey]);
+
+  const handleSort = (field: ProductSortField) => {
+    if (field === sortBy) {
+      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(field);
+      setSortOrder("asc");
+    }
+    setPage(1);
+  };
+
+  const handleFilterChange = (update: () => void) => {
+    update();
+    setPage(1);
+  };
+
+  const allSelected = products.length > 0 && selected.length === products.length;
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? products.map((product) => product.id) : []);
+  };
+
+  const toggleRow = (id: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, id] : prev.filter((current) => current !== id)));
+  };
+
+  const runBulkAction = async (ids: string[], action: BulkProductAction) => {
+    try {
+      let affected = 1;
+      // A single delete goes through the regular endpoint and updates the cache in place
+      if (ids.length === 1 && action.type === "delete") {
+        await deleteProduct(ids[0]);
+      } else {
+        affected = await bulkUpdateProducts(ids, action);
+      }
+      toast({
+        title: action.type === "delete" ? "Products deleted" : "Products updated",
+        description: `${affected} ${affected === 1 ? "product" : "products"} ${
+          action.type === "delete" ? "deleted" : "updated"
+        }.`,
+      });
+      setEditAction(null);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to update products"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    setDeleting(true);
+    await runBulkAction(pendingDelete, { type: "delete" });
+    setDeleting(false);
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search products..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select
+          value={category}
+          onValueChange={(value) => handleFilterChange(() => setCategory(value))}
+        >
+          <SelectTrigger className="md:w-48" aria-label="Category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All categories</SelectItem>
+            <CategorySelectItems />
+          </SelectContent>
+        </Select>
+        <Select
+          value={stockFilter}
+          onValueChange={(value) =>
+            handleFilterChange(() => setStockFilter(value as StockFilter | typeof ALL))
+          }
+        >
+          <SelectTrigger className="md:w-40" aria-label="Stock">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Any stock</SelectItem>
+            {Object.entries(STOCK_FILTER_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-3 rounded-md bg-gray-50 border">
+          <span className="text-sm font-medium mr-2">{selected.length} selected</span>
+          <Button size="sm" variant="outline" onClick={() => setEditAction("category")}>
+            Change category
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setEditAction("stock")}>
+            Adjust stock
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setEditAction("price")}>
+            Change price
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => setPendingDelete(selected)}
+          >
+            <Trash2 className="mr-1 h-4 w-4" /> Delete
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSelected([])}>
+            Clear
+          </Button>
+        </div>
+      )}
+
+      {error ? (
+        <div className="p-4 text-red-700 bg-red-100 rounded-md">
+          Error loading products: {error}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    aria-label="Select all on this page"
+                  />
+                </TableHead>
+                {columns.map(({ field, label }) => (
+                  <TableHead key={field}>
+                    <button
+                      type="button"
+                      className="flex items-center font-medium"
+                      onClick={() => handleSort(field)}
+                    >
+                      {label}
+                      <SortIcon active={field === sortBy} order={sortOrder} />
+                    </button>
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {products.map((product) => {
+                const primaryImage =
+                  product.images.find((img) => img.isPrimary)?.url || product.images[0]?.url;
+                const isSelected = selected.includes(product.id);
+
+                return (
+                  <TableRow
+                    key={product.id}
+                    className="cursor-pointer"
+                    data-state={isSelected ? "selected" : undefined}
+                    onClick={() => window.open(`/product/${product.id}`, "_blank")}
+                  >
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={isSelected}
+                        onCheckedChange={(checked) => toggleRow(product.id, checked === true)}
+                        aria-label={`Select ${product.name}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-3">
+                        {primaryImage ? (
+                          <img
+                            className="h-10 w-10 rounded-md object-cover"
+                            src={primaryImage}
+                            alt={product.name}
+                          />
+                        ) : (
+                          <div className="h-10 w-10 rounded-md bg-gray-200 flex items-center justify-center">
+                            <Package className="h-5 w-5 text-gray-400" />
+                          </div>
+                        )}
+                        <div>
+                          <div className="font-medium text-gray-900">{product.name}</div>
+                          <div className="text-gray-500 text-sm truncate max-w-xs">
+                            {product.description}
+                          </div>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {formatMoney(product.price, product.currency ?? settings.defaultCurrency)}
+                    </TableCell>
+                    <TableCell>{product.category || "Uncategorized"}</TableCell>
+                    <TableCell>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setAdjusting(product);
+                        }}
+                        aria-label={`Adjust stock of ${product.name}`}
+                      >
+                        <StockBadge
+                          stock={product.stock}
+                          threshold={getLowStockThreshold(product)}
+                        />
+                      </button>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2" onClick={(e) => e.stopPropagation()}>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => navigate(`/admin/edit-product/${product.id}`)}
+                          aria-label={`Edit ${product.name}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-red-600 hover:text-red-900"
+                          onClick={() => setPendingDelete([product.id])}
+                          aria-label={`Delete ${product.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {!loading && products.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={columns.length + 2} className="text-center py-10 text-gray-500">
+                    No products found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <TablePagination
+        page={page}
+        pageCount={Math.ceil(total / PAGE_SIZE)}
+        onPageChange={setPage}
+      />
+
+      <AdjustStockDialog
+        product={adjusting}
+        onOpenChange={(open) => !open && setAdjusting(null)}
+        onAdjusted={(adjusted) =>
+          setProducts((prev) =>
+            prev.map((product) => (product.id === adjusted.id ? adjusted : product))
+          )
+        }
+      />
+
+      <BulkEditDialog
+        action={editAction}
+        count={selected.length}
+        onOpenChange={(open) => !open && setEditAction(null)}
+        onSubmit={(action) => runBulkAction(selected, action)}
+      />
+
+      <AlertDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => !open && !deleting && setPendingDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {pendingDelete?.length === 1 ? "this product" : `${pendingDelete?.length} products`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This can't be undone. Past orders keep their copy of the product details.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmDelete();
+              }}
+              disabled={deleting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ProductDataTable;
@@ -0,0 +1,470 @@
+import { SetStateAction, useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { useBlocker } from "react-router-dom";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import CategorySelectItems from "@/components/CategorySelectItems";
+import ImageManager from "@/components/ImageManager";
+import VariantEditor from "@/components/VariantEditor";
+import { Product } from "@/contexts/ProductContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import { LOW_STOCK_THRESHOLD } from "@/api/products";
+import { ApiError, getErrorMessage } from "@/api/client";
+import { CURRENCIES } from "@/lib/currency";
+import { ManagedImage } from "@/lib/images";
+import { getCurrencyDecimals } from "@/lib/money";
+import {
+  ProductDraft,
+  ProductFormField,
+  ProductFormValues,
+  buildProductFormData,
+  clearProductDraft,
+  getProductDraftKey,
+  getProductFormSchema,
+  loadProductDraft,
+  mapServerFieldErrors,
+  saveProductDraft,
+  toProductFormValues,
+} from "@/lib/productForm";
+import { getTotalStock } from "@/lib/variants";
+
+const AUTOSAVE_DELAY = 500;
+
+// Stock is saved the moment it's adjusted, so the product's figures win over
+// whatever the form or a draft holds
+const withSavedStock = (values: ProductFormValues, product?: Product): ProductFormValues =>
+  product
+    ? {
+        ...values,
+        stock: product.stock.toString(),
+        variants: values.variants.map((variant) => {
+          const saved = product.variants.find((candidate) => candidate.id === variant.id);
+          return saved ? { ...variant, stock: saved.stock } : variant;
+        }),
+      }
+    : values;
+
+interface ProductFormProps {
+  // Left out when adding a product
+  product?: Product;
+  onSubmit: (formData: FormData) => Promise<Product>;
+  onSaved: (product: Product) => void;
+  // Opens the stock adjustment dialog; stock can't be edited in the form
+  // once a product exists
+  onAdjustStock?: () => void;
+}
+
+const ProductForm = ({ product, onSubmit, onSaved, onAdjustStock }: ProductFormProps) => {
+  const { settings } = useStoreSettings();
+  const isNew = !product;
+  const draftKey = getProductDraftKey(product?.id);
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(getProductFormSchema(isNew)),
+    defaultValues: toProductFormValues(product, settings.defaultCurrency),
+  });
+  // A draft left from an earlier visit, offered until restored or discarded
+  const [draft, setDraft] = useState<ProductDraft | null>(() => loadProductDraft(draftKey));
+  const [serverError, setServerError] = useState<string | null>(null);
+  // Set once saved, so leaving for the next page isn't blocked
+  const savedRef = useRef(false);
+
+  const { isDirty, isSubmitting } = form.formState;
+  const [currency, images, variants] = form.watch(["currency", "images", "variants"]);
+
+  useEffect(() => {
+    if (product) {
+      // The saved figures become the defaults, with the admin's unsaved variant
+      // edits kept on top so reverting them leaves the form clean
+      const editedVariants = withSavedStock(form.getValues(), product).variants;
+      form.resetField("stock", { defaultValue: product.stock.toString() });
+      form.resetField("variants", { defaultValue: product.variants });
+      form.setValue("variants", editedVariants, { shouldDirty: true });
+    }
+  }, [product, form]);
+
+  // Autosave, held back while an older draft is waiting to be restored so it
+  // isn't overwritten
+  useEffect(() => {
+    if (draft) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const subscription = form.watch(() => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        if (form.formState.isDirty && !savedRef.current) {
+          saveProductDraft(draftKey, form.getValues());
+        }
+      }, AUTOSAVE_DELAY);
+    });
+    return () => {
+      clearTimeout(timer);
+      subscription.unsubscribe();
+    };
+  }, [draft, draftKey, form]);
+
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      isDirty && !savedRef.current && currentLocation.pathname !== nextLocation.pathname
+  );
+
+  // Reloading or closing the tab gets the browser's own prompt
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isDirty]);
+
+  const restoreDraft = () => {
+    form.reset(withSavedStock(draft.values, product), { keepDefaultValues: true });
+    setDraft(null);
+  };
+
+  const discardDraft = () => {
+    clearProductDraft(draftKey);
+    setDraft(null);
+  };
+
+  const handleLeave = () => {
+    if (!draft && isDirty) saveProductDraft(draftKey, form.getValues());
+    blocker.proceed?.();
+  };
+
+  // ImageManager updates its list as uploads progress, long after a render,
+  // so updater functions are applied to the form's current images
+  const handleImagesChange = (action: SetStateAction<ManagedImage[]>) => {
+    const next = typeof action === "function" ? action(form.getValues("images")) : action;
+    form.setValue("images", next, { shouldDirty: true, shouldValidate: form.formState.isSubmitted });
+  };
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    setServerError(null);
+    try {
+      const saved = await onSubmit(buildProductFormData(values, isNew));
+      savedRef.current = true;
+      clearProductDraft(draftKey);
+      onSaved(saved);
+    } catch (err) {
+      console.error("Error saving product:", err);
+      const fallback = isNew
+        ? "Failed to add product. Please try again."
+        : "Failed to update product. Please try again.";
+      if (err instanceof ApiError && Object.keys(err.fieldErrors).length > 0) {
+        const { fields, other } = mapServerFieldErrors(err.fieldErrors);
+        Object.entries(fields).forEach(([name, message]) =>
+          form.setError(name as ProductFormField, { type: "server", message }, { shouldFocus: true })
+        );
+        setServerError(other.length > 0 ? other.join(" ") : "Check the highlighted fields and try again.");
+      } else {
+        setServerError(getErrorMessage(err, fallback));
+      }
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        {draft && (
+          <div className="p-4 text-sm bg-amber-50 border border-amber-200 rounded-md flex flex-wrap items-center justify-between gap-2">
+            <span>
+              You have unsaved changes from {new Date(draft.savedAt).toLocaleString()}.
+            </span>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" onClick={restoreDraft}>
+                Restore
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={discardDraft}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {serverError && (
+          <div className="p-4 text-sm text-red-700 bg-red-100 rounded-md">{serverError}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Product Name *</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="e.g. Wireless Earbuds" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="flex gap-2">
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem className="w-[120px] shrink-0">
+                  <FormLabel>Currency</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {CURRENCIES.map((option) => (
+                        <SelectItem key={option.code} value={option.code}>
+                          <div className="flex items-center gap-2">
+                            <span>{option.symbol}</span>
+                            <span>{option.code}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="price"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel>Price *</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="number"
+                      step={10 ** -getCurrencyDecimals(currency)}
+                      min="0"
+                      placeholder="e.g. 49.99"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="categoryId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category *</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <CategorySelectItems />
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="stock"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Stock Quantity{isNew && " *"}</FormLabel>
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input
+                      {...field}
+                      value={variants.length > 0 ? getTotalStock(variants) : field.value}
+                      type="number"
+                      min="0"
+                      step="1"
+                      placeholder="e.g. 100"
+                      disabled={!isNew || variants.length > 0}
+                    />
+                  </FormControl>
+                  {!isNew && onAdjustStock && (
+                    <Button type="button" variant="outline" onClick={onAdjustStock}>
+                      Adjust stock
+                    </Button>
+                  )}
+                </div>
+                {(!isNew || variants.length > 0) && (
+                  <FormDescription>
+                    {isNew
+                      ? "Set per variant below"
+                      : variants.length > 0
+                        ? "Total of all variants. New variants take their opening stock below."
+                        : "Record deliveries, damage and corrections with Adjust stock."}
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="lowStockThreshold"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Low stock alert at</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder={`Default: ${LOW_STOCK_THRESHOLD}`}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="weight"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Weight (kg)</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="For weight-based shipping"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Product Description *</FormLabel>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  placeholder="Describe your product in detail..."
+                  className="min-h-[120px]"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="options"
+          render={({ field }) => (
+            <FormItem className="space-y-4">
+              <div>
+                <FormLabel>Variants</FormLabel>
+                <FormDescription className="mt-1">
+                  Add options like size or color to sell this product in several versions.
+                </FormDescription>
+              </div>
+              <VariantEditor
+                options={field.value}
+                variants={variants}
+                onChange={(nextOptions, nextVariants) => {
+                  field.onChange(nextOptions);
+                  form.setValue("variants", nextVariants, { shouldDirty: true });
+                }}
+                currency={currency}
+                lockSavedStock={!isNew}
+                images={images
+                  .filter((image) => image.id)
+                  .map((image) => ({ id: image.id, url: image.url }))}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="images"
+          render={() => (
+            <FormItem className="space-y-4">
+              <FormLabel>Product Images *</FormLabel>
+              <ImageManager images={images} onChange={handleImagesChange} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isSubmitting} className="w-full">
+          {isNew
+            ? isSubmitting
+              ? "Adding Product..."
+              : "Add Product"
+            : isSubmitting
+              ? "Updating Product..."
+              : "Update Product"}
+        </Button>
+      </form>
+
+      <AlertDialog open={blocker.state === "blocked"}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave without saving?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your changes haven't been saved to the store. They're kept as a draft on this
+              device, ready to restore next time you open this product.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => blocker.reset?.()}>Stay</AlertDialogCancel>
+            <AlertDialogAction onClick={handleLeave}>Leave</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Form>
+  );
+};
+
+export default ProductForm;
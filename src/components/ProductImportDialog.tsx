@@ -0,0 +1,340 @@
+import { ChangeEvent, useState } from "react";
+import { CheckCircle2, Upload, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCategories } from "@/contexts/CategoryContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import * as productsApi from "@/api/products";
+import { getErrorMessage } from "@/api/client";
+import { CsvRow, parseCsv } from "@/lib/csv";
+import { formatMoney } from "@/lib/money";
+import {
+  ColumnMapping,
+  ImportRowResult,
+  PRODUCT_IMPORT_FIELDS,
+  ProductImportField,
+  getMissingFields,
+  guessColumnMapping,
+  toProductFormData,
+  validateImportRows,
+} from "@/lib/productImport";
+
+type ImportStep = "upload" | "map" | "preview" | "importing" | "done";
+
+const UNMAPPED = "none";
+
+interface ImportFailure {
+  line: number;
+  name: string;
+  message: string;
+}
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called once an import has created at least one product
+  onImported: () => void;
+}
+
+const ProductImportDialog = ({ open, onOpenChange, onImported }: ProductImportDialogProps) => {
+  const { settings } = useStoreSettings();
+  const { categories } = useCategories();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<CsvRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [processed, setProcessed] = useState(0);
+  const [imported, setImported] = useState(0);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+
+  const validRows = results.filter((result) => result.values);
+  const invalidRows = results.filter((result) => !result.values);
+  const missingFields = getMissingFields(mapping);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setResults([]);
+    setParseError(null);
+    setProcessed(0);
+    setImported(0);
+    setFailures([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    // An import in progress can't be abandoned halfway
+    if (step === "importing") return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setParseError(null);
+    try {
+      const [headerRow, ...dataRows] = parseCsv(await file.text());
+      if (!headerRow || dataRows.length === 0) {
+        setParseError("The file needs a header row and at least one product.");
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow.cells.map((header) => header.trim()));
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow.cells));
+      setStep("map");
+    } catch (err) {
+      console.error("Error reading CSV:", err);
+      setParseError("That file couldn't be read as CSV.");
+    }
+  };
+
+  const handleMappingChange = (field: ProductImportField, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === UNMAPPED ? undefined : Number(value) }));
+  };
+
+  const handlePreview = () => {
+    setResults(validateImportRows(rows, mapping, categories));
+    setStep("preview");
+  };
+
+  // One request per product, in file order, so the report can name each failure
+  const handleImport = async () => {
+    setStep("importing");
+    let created = 0;
+
+    for (const result of validRows) {
+      try {
+        await productsApi.createProduct(toProductFormData(result.values, settings.defaultCurrency));
+        created++;
+        setImported(created);
+      } catch (err) {
+        setFailures((prev) => [
+          ...prev,
+          {
+            line: result.line,
+            name: result.values.name,
+            message: getErrorMessage(err, "Failed to add product"),
+          },
+        ]);
+      }
+      setProcessed((count) => count + 1);
+    }
+
+    if (created > 0) onImported();
+    setStep("done");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import products</DialogTitle>
+          <DialogDescription>
+            {step === "upload"
+              ? "Upload a CSV file with one product per row."
+              : `${fileName} · ${rows.length} rows`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <label className="border-2 border-dashed border-gray-300 rounded-md flex flex-col items-center justify-center h-40 cursor-pointer hover:bg-gray-50">
+              <Upload size={24} className="text-gray-400" />
+              <span className="mt-2 text-sm text-gray-500">Choose a CSV file</span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </label>
+            {parseError && (
+              <div className="p-3 text-sm text-red-700 bg-red-100 rounded-md">{parseError}</div>
+            )}
+            <p className="text-xs text-gray-500">
+              Columns: {PRODUCT_IMPORT_FIELDS.map((field) => field.label).join(", ")}. Separate
+              several image URLs with "|". Every row is added as a new product.
+            </p>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Match each product field to a column in your file.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {PRODUCT_IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label>
+                    {field.label}
+                    {field.required && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field.key]?.toString() ?? UNMAPPED}
+                    onValueChange={(value) => handleMappingChange(field.key, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {missingFields.length > 0 && (
+              <p className="text-sm text-amber-700">
+                Map {missingFields.map((field) => field.label).join(", ")} to continue.
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              Rows without a currency are priced in {settings.defaultCurrency}.
+            </p>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {validRows.length} of {results.length} rows are ready to import.
+              {invalidRows.length > 0 && " Rows with errors will be skipped."}
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Stock</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.line}>
+                      <TableCell>{result.line}</TableCell>
+                      {result.values ? (
+                        <>
+                          <TableCell className="font-medium">{result.values.name}</TableCell>
+                          <TableCell>
+                            {formatMoney(
+                              result.values.price,
+                              result.values.currency ?? settings.defaultCurrency
+                            )}
+                          </TableCell>
+                          <TableCell>{result.values.category.name}</TableCell>
+                          <TableCell>{result.values.stock}</TableCell>
+                          <TableCell>
+                            <CheckCircle2 className="h-4 w-4 text-green-600" aria-label="Valid" />
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5} className="text-red-700">
+                          <div className="flex items-start gap-2">
+                            <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                            <span>{result.errors.join("; ")}</span>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {(step === "importing" || step === "done") && (
+          <div className="space-y-4">
+            <Progress value={(processed / Math.max(validRows.length, 1)) * 100} />
+            <p className="text-sm text-gray-600">
+              {step === "importing"
+                ? `Importing ${processed + 1} of ${validRows.length}...`
+                : `Imported ${imported} of ${validRows.length} products.`}
+              {step === "done" &&
+                invalidRows.length > 0 &&
+                ` ${invalidRows.length} rows were skipped for validation errors.`}
+            </p>
+            {failures.length > 0 && (
+              <div className="p-3 text-sm text-red-700 bg-red-100 rounded-md space-y-1">
+                {failures.map((failure) => (
+                  <p key={failure.line}>
+                    Row {failure.line} ({failure.name}): {failure.message}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Choose another file
+              </Button>
+              <Button onClick={handlePreview} disabled={missingFields.length > 0}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back to mapping
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                Import {validRows.length} products
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={() => handleOpenChange(false)}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductImportDialog;
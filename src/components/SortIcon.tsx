@@ -0,0 +1,18 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+
+interface SortIconProps {
+  active: boolean;
+  order: "asc" | "desc";
+}
+
+// Shown next to a sortable column heading
+const SortIcon = ({ active, order }: SortIconProps) => {
+  if (!active) return <ArrowUpDown className="ml-1 h-3 w-3" />;
+  return order === "asc" ? (
+    <ArrowUp className="ml-1 h-3 w-3" />
+  ) : (
+    <ArrowDown className="ml-1 h-3 w-3" />
+  );
+};
+
+export default SortIcon;
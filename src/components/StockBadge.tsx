@@ -0,0 +1,25 @@
+import { LOW_STOCK_THRESHOLD } from "@/api/products";
+import { StockLevel, getStockLevel } from "@/lib/inventory";
+
+const STOCK_LEVEL_STYLES: Record<StockLevel, string> = {
+  in_stock: "bg-green-100 text-green-800",
+  low_stock: "bg-yellow-100 text-yellow-800",
+  out_of_stock: "bg-red-100 text-red-800",
+};
+
+interface StockBadgeProps {
+  stock: number;
+  threshold?: number;
+}
+
+const StockBadge = ({ stock, threshold = LOW_STOCK_THRESHOLD }: StockBadgeProps) => (
+  <span
+    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+      STOCK_LEVEL_STYLES[getStockLevel(stock, threshold)]
+    }`}
+  >
+    {stock > 0 ? `${stock} in stock` : "Out of stock"}
+  </span>
+);
+
+export default StockBadge;
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Product } from "@/contexts/ProductContext";
+import * as inventoryApi from "@/api/inventory";
+import { StockMovement } from "@/api/inventory";
+import { getErrorMessage } from "@/api/client";
+import { STOCK_REASON_LABELS } from "@/lib/inventory";
+import { describeVariant, getVariant } from "@/lib/variants";
+
+interface StockHistoryProps {
+  product: Product;
+  // Bumped after an adjustment to reload the ledger
+  refreshKey?: number;
+}
+
+const StockHistory = ({ product, refreshKey = 0 }: StockHistoryProps) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMovements = async () => {
+      setLoading(true);
+      try {
+        const result = await inventoryApi.getStockMovements(product.id);
+        if (!cancelled) {
+          setMovements(result);
+          setError(null);
+        }
+      } catch (err) {
+        console.error("Error fetching stock history:", err);
+        if (!cancelled) setError(getErrorMessage(err, "Failed to load stock history"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchMovements();
+    return () => {
+      cancelled = true;
+    };
+  }, [product.id, refreshKey]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading stock history...</p>;
+  }
+
+  if (error) {
+    return <div className="p-3 text-sm text-red-700 bg-red-100 rounded-md">{error}</div>;
+  }
+
+  if (movements.length === 0) {
+    return <p className="text-sm text-gray-500">No stock movements recorded yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Reason</TableHead>
+          {product.variants.length > 0 && <TableHead>Variant</TableHead>}
+          <TableHead className="text-right">Change</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+          <TableHead>Note</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {movements.map((movement) => (
+          <TableRow key={movement.id}>
+            <TableCell>{new Date(movement.createdAt).toLocaleString()}</TableCell>
+            <TableCell>{STOCK_REASON_LABELS[movement.reason]}</TableCell>
+            {product.variants.length > 0 && (
+              <TableCell>
+                {describeVariant(product, getVariant(product, movement.variantId)) || "—"}
+              </TableCell>
+            )}
+            <TableCell
+              className={`text-right font-medium ${
+                movement.change > 0 ? "text-green-700" : "text-red-700"
+              }`}
+            >
+              {movement.change > 0 ? `+${movement.change}` : movement.change}
+            </TableCell>
+            <TableCell className="text-right">{movement.balance}</TableCell>
+            <TableCell className="text-gray-600">
+              {movement.note}
+              {movement.createdBy && (
+                <span className="block text-xs text-gray-400">by {movement.createdBy}</span>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default StockHistory;
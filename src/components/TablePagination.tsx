@@ -0,0 +1,74 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface TablePaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+// Page numbers to render around the current page, with null for gaps
+const getPageWindow = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const sorted = [...pages].filter((p) => p >= 1 && p <= pageCount).sort((a, b) => a - b);
+
+  return sorted.flatMap((p, index) =>
+    index > 0 && p - sorted[index - 1] > 1 ? [null, p] : [p]
+  );
+};
+
+const TablePagination = ({ page, pageCount, onPageChange }: TablePaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+        {getPageWindow(page, pageCount).map((p, index) =>
+          p === null ? (
+            <PaginationItem key={`gap-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={p}>
+              <PaginationLink href="#" isActive={p === page} onClick={goTo(p)}>
+                {p}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default TablePagination;
@@ -10,7 +10,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { User, ShoppingCart, LogOut, Settings, Package, ShieldAlert } from "lucide-react";
+import { User, ShoppingCart, LogOut, Settings, Package, ShieldAlert, ShoppingBag } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 
@@ -72,6 +72,14 @@ export function UserMenu() {
               </Link>
             </DropdownMenuItem>
           )}
+          {user.role === "client" && (
+            <DropdownMenuItem>
+              <Link to="/orders" className="flex items-center w-full">
+                <ShoppingBag className="mr-2 h-4 w-4" />
+                <span>My Orders</span>
+              </Link>
+            </DropdownMenuItem>
+          )}
           
           {isAdmin() && (
             <>
@@ -83,6 +91,12 @@ export function UserMenu() {
                   <span>Dashboard</span>
                 </Link>
               </DropdownMenuItem>
+              <DropdownMenuItem>
+                <Link to="/admin/orders" className="flex items-center w-full">
+                  <ShoppingBag className="mr-2 h-4 w-4" />
+                  <span>Orders</span>
+                </Link>
+              </DropdownMenuItem>
               <DropdownMenuItem>
                 <Link to="/admin/add-product" className="flex items-center w-full">
                   <Package className="mr-2 h-4 w-4" />
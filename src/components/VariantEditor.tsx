@@ -0,0 +1,258 @@
+import { KeyboardEvent, useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ProductOption, ProductVariant } from "@/api/products";
+import { CurrencyCode } from "@/lib/currency";
+import { getCurrencyDecimals } from "@/lib/money";
+import {
+  buildVariantMatrix,
+  getTotalStock,
+  isNewVariant,
+  isOptionComplete,
+} from "@/lib/variants";
+
+const MAX_OPTIONS = 3;
+const NO_IMAGE = "none";
+
+interface VariantEditorProps {
+  options: ProductOption[];
+  variants: ProductVariant[];
+  onChange: (options: ProductOption[], variants: ProductVariant[]) => void;
+  currency: CurrencyCode;
+  // Saved images a variant can point at; the column is hidden when empty
+  images?: { id: string; url: string }[];
+  // Saved variants' stock only changes through stock adjustments
+  lockSavedStock?: boolean;
+}
+
+const VariantEditor = ({
+  options,
+  variants,
+  onChange,
+  currency,
+  images = [],
+  lockSavedStock = false,
+}: VariantEditorProps) => {
+  // Value being typed for each option, added on Enter or comma
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  // Rows are only rebuilt once every option has a name and values, so details
+  // typed into the table survive an option being edited
+  const updateOptions = (next: ProductOption[], current = variants) => {
+    onChange(next, next.every(isOptionComplete) ? buildVariantMatrix(next, current) : current);
+  };
+
+  const updateOption = (index: number, option: ProductOption) => {
+    const previousName = options[index].name;
+    // Carry values over to the new name so renaming keeps the rows' details
+    const renamed =
+      option.name === previousName
+        ? variants
+        : variants.map((variant) => {
+            const { [previousName]: value, ...rest } = variant.options;
+            return value === undefined
+              ? variant
+              : { ...variant, options: { ...rest, [option.name]: value } };
+          });
+    updateOptions(
+      options.map((current, i) => (i === index ? option : current)),
+      renamed
+    );
+  };
+
+  const addValue = (index: number) => {
+    const value = drafts[index]?.trim();
+    setDrafts((prev) => ({ ...prev, [index]: "" }));
+    if (!value || options[index].values.includes(value)) return;
+    updateOption(index, { ...options[index], values: [...options[index].values, value] });
+  };
+
+  const handleValueKeyDown = (index: number, e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addValue(index);
+    }
+  };
+
+  const updateVariant = (id: string, changes: Partial<ProductVariant>) => {
+    onChange(
+      options,
+      variants.map((variant) => (variant.id === id ? { ...variant, ...changes } : variant))
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {options.map((option, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-2 items-start">
+          <Input
+            value={option.name}
+            onChange={(e) => updateOption(index, { ...option, name: e.target.value })}
+            placeholder="Option name, e.g. Size"
+            aria-label="Option name"
+          />
+          <div className="space-y-2">
+            <Input
+              value={drafts[index] ?? ""}
+              onChange={(e) => setDrafts((prev) => ({ ...prev, [index]: e.target.value }))}
+              onKeyDown={(e) => handleValueKeyDown(index, e)}
+              onBlur={() => addValue(index)}
+              placeholder="Type a value and press Enter"
+              aria-label={`${option.name || "Option"} values`}
+            />
+            {option.values.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {option.values.map((value) => (
+                  <Badge key={value} variant="secondary" className="gap-1">
+                    {value}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateOption(index, {
+                          ...option,
+                          values: option.values.filter((current) => current !== value),
+                        })
+                      }
+                      aria-label={`Remove ${value}`}
+                    >
+                      <X size={12} />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => updateOptions(options.filter((_, i) => i !== index))}
+            aria-label="Remove option"
+          >
+            <X size={16} />
+          </Button>
+        </div>
+      ))}
+
+      {options.length < MAX_OPTIONS && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => updateOptions([...options, { name: "", values: [] }])}
+        >
+          <Plus size={16} className="mr-2" />
+          Add option
+        </Button>
+      )}
+
+      {variants.length > 0 && (
+        <div className="space-y-2">
+          <Label>Variants ({variants.length})</Label>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variant</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Stock</TableHead>
+                {images.length > 0 && <TableHead>Image</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {variants.map((variant) => (
+                <TableRow key={variant.id}>
+                  <TableCell className="font-medium whitespace-nowrap">
+                    {options.map((option) => variant.options[option.name]).join(" / ")}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={variant.sku ?? ""}
+                      onChange={(e) => updateVariant(variant.id, { sku: e.target.value || undefined })}
+                      aria-label="SKU"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step={10 ** -getCurrencyDecimals(currency)}
+                      value={variant.price ?? ""}
+                      onChange={(e) =>
+                        updateVariant(variant.id, {
+                          price: e.target.value === "" ? undefined : Number(e.target.value),
+                        })
+                      }
+                      placeholder="Product price"
+                      aria-label="Price"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={variant.stock}
+                      onChange={(e) =>
+                        updateVariant(variant.id, { stock: Math.max(0, Number(e.target.value)) })
+                      }
+                      disabled={lockSavedStock && !isNewVariant(variant)}
+                      aria-label="Stock"
+                    />
+                  </TableCell>
+                  {images.length > 0 && (
+                    <TableCell>
+                      <Select
+                        value={variant.imageId ?? NO_IMAGE}
+                        onValueChange={(value) =>
+                          updateVariant(variant.id, {
+                            imageId: value === NO_IMAGE ? undefined : value,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="w-[90px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_IMAGE}>None</SelectItem>
+                          {images.map((image) => (
+                            <SelectItem key={image.id} value={image.id}>
+                              <img src={image.url} alt="" className="h-8 w-8 rounded object-cover" />
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-gray-500">
+            {getTotalStock(variants)} units in total. Leave a price empty to use the product price.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantEditor;
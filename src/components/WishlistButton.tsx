@@ -0,0 +1,41 @@
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { Product } from "@/contexts/ProductContext";
+import { useWishlist } from "@/contexts/WishlistContext";
+import { cn } from "@/lib/utils";
+
+interface WishlistButtonProps {
+  product: Product;
+  className?: string;
+}
+
+const WishlistButton = ({ product, className }: WishlistButtonProps) => {
+  const { toast } = useToast();
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const saved = isInWishlist(product.id);
+
+  const handleClick = () => {
+    const nowSaved = toggleWishlist(product);
+    toast({
+      title: nowSaved ? "Saved to wishlist" : "Removed from wishlist",
+      description: product.name,
+    });
+  };
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="icon"
+      onClick={handleClick}
+      className={cn("bg-white", className)}
+      aria-label={saved ? "Remove from wishlist" : "Save to wishlist"}
+      aria-pressed={saved}
+    >
+      <Heart className={cn("h-4 w-4", saved && "fill-red-500 text-red-500")} />
+    </Button>
+  );
+};
+
+export default WishlistButton;
@@ -1,4 +1,7 @@
 export const config = {
     apiBaseUrl: import.meta.env.VITE_API_BASE_URL,
     googleClientId: import.meta.env.VITE_CLIENT_ID,
+    // The mock card provider never moves real money; keep it out of production
+    enableMockPayments:
+      import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK_PAYMENTS === "true",
   };
\ No newline at end of file
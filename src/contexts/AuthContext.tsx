@@ -1,4 +1,3 @@
-import axios from "axios";
 import { jwtDecode } from "jwt-decode";
 import {
   createContext,
@@ -7,15 +6,17 @@ import {
   useEffect,
   ReactNode,
 } from "react";
-import { config } from "../config";
+import * as authApi from "@/api/auth";
+import { User } from "@/api/auth";
+import {
+  getValidAccessToken,
+  isTokenExpired,
+  onSessionExpired,
+  refreshAccessToken,
+  tokenStorage,
+} from "@/api/session";
 
-// Define user types
-export interface User {
-  id: string;
-  name: string;
-  email: string;
-  role?: "admin" | "client";
-}
+export type { User } from "@/api/auth";
 
 interface GoogleUser {
   email: string;
@@ -24,11 +25,6 @@ interface GoogleUser {
   sub: string;
 }
 
-interface DecodedToken {
-  userId: string;
-  exp: number;
-}
-
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
@@ -42,63 +38,6 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Create axios instance with base URL
-const api = axios.create({
-  baseURL: config.apiBaseUrl,
-});
-
-// Add interceptor to handle token refresh
-api.interceptors.request.use(async (config) => {
-  const accessToken = localStorage.getItem("accessToken");
-
-  if (accessToken) {
-    try {
-      // Check if token is expired
-      const decoded = jwtDecode<DecodedToken>(accessToken);
-      const currentTime = Date.now() / 1000;
-
-      if (decoded.exp < currentTime) {
-        // Token is expired, try to refresh
-        const refreshToken = localStorage.getItem("refreshToken");
-        if (refreshToken) {
-          try {
-            const response = await axios.post(
-              // @ts-ignore
-              `${config.apiBaseUrl}/user/refresh-token`,
-              { refreshToken }
-            );
-
-            const {
-              accessToken: newAccessToken,
-              refreshToken: newRefreshToken,
-            } = response.data;
-
-            // Update tokens in localStorage
-            localStorage.setItem("accessToken", newAccessToken);
-            localStorage.setItem("refreshToken", newRefreshToken);
-
-            // Update header with new token
-            config.headers.Authorization = `Bearer ${newAccessToken}`;
-          } catch (error) {
-            // Refresh failed, clear tokens and user
-            localStorage.removeItem("accessToken");
-            localStorage.removeItem("refreshToken");
-            localStorage.removeItem("user");
-            window.location.href = "/login";
-          }
-        }
-      } else {
-        // Token is still valid
-        config.headers.Authorization = `Bearer ${accessToken}`;
-      }
-    } catch (error) {
-      console.error("Token validation error", error);
-    }
-  }
-
-  return config;
-});
-
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -106,28 +45,24 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   // Check for saved login on mount
   useEffect(() => {
     const checkAuth = async () => {
-      const savedUser = localStorage.getItem("user");
-      const accessToken = localStorage.getItem("accessToken");
+      const accessToken = tokenStorage.getAccessToken();
 
-      if (savedUser && accessToken) {
+      if (accessToken) {
         try {
-          const parsedUser = JSON.parse(savedUser);
-          setUser(parsedUser);
-
-          // Validate token
-          const decoded = jwtDecode<DecodedToken>(accessToken);
-          const currentTime = Date.now() / 1000;
+          const savedUser = tokenStorage.getUser();
+          if (savedUser) {
+            setUser(savedUser);
 
-          if (decoded.exp < currentTime) {
-            // Token expired, try refresh
-            await refreshTokens();
+            if (isTokenExpired(accessToken)) {
+              // Token expired, try refresh
+              await refreshAccessToken();
+            }
           }
         } catch (error) {
           console.error("Failed to restore authentication state", error);
           // Clear invalid state
-          localStorage.removeItem("accessToken");
-          localStorage.removeItem("refreshToken");
-          localStorage.removeItem("user");
+          tokenStorage.clear();
+          setUser(null);
         }
       }
       setIsLoading(false);
@@ -136,55 +71,18 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     checkAuth();
   }, []);
 
-  const refreshTokens = async (): Promise<boolean> => {
-    const refreshToken = localStorage.getItem("refreshToken");
-    if (!refreshToken) return false;
-
-    try {
-      const response = await axios.post(
-        `${config.apiBaseUrl}/user/refresh-token`,
-        { refreshToken }
-      );
-
-      const { accessToken, refreshToken: newRefreshToken } = response.data;
-
-      localStorage.setItem("accessToken", accessToken);
-      localStorage.setItem("refreshToken", newRefreshToken);
-      return true;
-    } catch (error) {
-      console.error("Token refresh failed", error);
-      // Clear authentication state
-      localStorage.removeItem("accessToken");
-      localStorage.removeItem("refreshToken");
-      localStorage.removeItem("user");
-      setUser(null);
-      window.location.href = "/login";
-      return false;
-    }
-  };
+  // Drop the user once the session can no longer be refreshed;
+  // ProtectedRoute takes care of sending them to the login page
+  useEffect(() => onSessionExpired(() => setUser(null)), []);
 
   const login = async (email: string, password: string) => {
     setIsLoading(true);
     try {
-      const response = await axios.post(`${config.apiBaseUrl}/user/signin`, {
-        username: email,
-        password: password,
-      });
-
-      const { user, accessToken, refreshToken } = response.data;
+      const { user, ...tokens } = await authApi.signIn(email, password);
 
       // Store tokens and user info
-      localStorage.setItem("accessToken", accessToken);
-      localStorage.setItem("refreshToken", refreshToken);
-      localStorage.setItem("user", JSON.stringify(user));
-
+      tokenStorage.save(tokens, user);
       setUser(user);
-    } catch (error) {
-      let errorMessage = "Invalid email or password";
-      if (axios.isAxiosError(error) && error.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      }
-      throw new Error(errorMessage);
     } finally {
       setIsLoading(false);
     }
@@ -207,9 +105,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         role: "client",
       };
 
-      localStorage.setItem("accessToken", credential);
-      localStorage.setItem("token", credential); 
-      localStorage.setItem("user", JSON.stringify(user));
+      tokenStorage.save({ accessToken: credential }, user);
+      localStorage.setItem("token", credential);
       setUser(user);
     } catch (error) {
       console.error(error);
@@ -222,28 +119,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const adminLogin = async (email: string, password: string) => {
     setIsLoading(true);
     try {
-      const response = await axios.post(
-        `${config.apiBaseUrl}/user/admin-login`,
-        {
-          username: email,
-          password: password,
-        }
-      );
-
-      const { admin, accessToken, refreshToken } = response.data;
+      const { user: admin, ...tokens } = await authApi.adminSignIn(email, password);
 
       // Store tokens and admin info
-      localStorage.setItem("accessToken", accessToken);
-      localStorage.setItem("refreshToken", refreshToken);
-      localStorage.setItem("user", JSON.stringify(admin));
-
+      tokenStorage.save(tokens, admin);
       setUser(admin);
-    } catch (error) {
-      let errorMessage = "Invalid admin credentials";
-      if (axios.isAxiosError(error) && error.response?.data?.message) {
-        errorMessage = error.response.data.message;
-      }
-      throw new Error(errorMessage);
     } finally {
       setIsLoading(false);
     }
@@ -251,20 +131,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   const logout = async () => {
     try {
-      const accessToken = localStorage.getItem("accessToken");
+      const accessToken = tokenStorage.getAccessToken();
 
       if (accessToken) {
         // Try server-side logout
         try {
-          await axios.post(
-            `${config.apiBaseUrl}/user/logout`,
-            {},
-            {
-              headers: {
-                Authorization: `Bearer ${accessToken}`,
-              },
-            }
-          );
+          await authApi.signOut(accessToken);
         } catch (error) {
           console.error("Server logout failed", error);
         }
@@ -272,9 +144,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     } finally {
       // Always clear local state
       setUser(null);
-      localStorage.removeItem("accessToken");
-      localStorage.removeItem("refreshToken");
-      localStorage.removeItem("user");
+      tokenStorage.clear();
     }
   };
 
@@ -282,33 +152,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return user?.role === "admin";
   };
 
-  const getToken = async (): Promise<string | null> => {
-    const accessToken = localStorage.getItem("accessToken");
-
-    if (accessToken) {
-      try {
-        // Validate token
-        const decoded = jwtDecode<DecodedToken>(accessToken);
-        const currentTime = Date.now() / 1000;
-
-        if (decoded.exp < currentTime) {
-          // Token expired, try refresh
-          const refreshed = await refreshTokens();
-          if (refreshed) {
-            return localStorage.getItem("accessToken");
-          }
-          return null;
-        }
-
-        return accessToken;
-      } catch (error) {
-        console.error("Token validation failed", error);
-        return null;
-      }
-    }
-
-    return null;
-  };
+  const getToken = async (): Promise<string | null> => getValidAccessToken();
 
   return (
     <AuthContext.Provider
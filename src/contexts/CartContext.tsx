@@ -1,86 +1,391 @@
-import { createContext, useContext, useState, ReactNode, useEffect } from "react";
+import { createContext, useContext, useState, ReactNode, useEffect, useRef } from "react";
+import * as cartApi from "@/api/cart";
+import * as couponsApi from "@/api/coupons";
+import { Coupon } from "@/api/coupons";
+import { ProductVariant } from "@/api/products";
+import { toAmount } from "@/lib/money";
+import { getLineId, getVariant, getVariantPrice, getVariantStock } from "@/lib/variants";
+import { useAuth } from "./AuthContext";
+import { Product, useProducts } from "./ProductContext";
 
-import { Product } from "./ProductContext";
-
-interface CartItem {
+export interface CartItem {
   product: Product;
+  // Set for products sold in variants; each variant is its own line
+  variantId?: string;
   quantity: number;
 }
 
+export interface CartPriceChange {
+  lineId: string;
+  name: string;
+  previousPrice: number | string;
+  previousCurrency?: Product["currency"];
+}
+
+export interface CartRevalidation {
+  priceChanges: CartPriceChange[];
+  // Lines whose quantity was reduced or that can no longer be bought
+  stockIssues: string[];
+}
+
 interface CartContextType {
   cartItems: CartItem[];
-  addToCart: (product: Product) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  // Returns how many units were actually added after the stock limit
+  addToCart: (product: Product, quantity?: number, variant?: ProductVariant) => number;
+  // Lines are addressed by getCartLineId
+  removeFromCart: (lineId: string) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
   clearCart: () => void;
   totalItems: number;
+  // Price changes found by the last revalidation, until dismissed
+  priceChanges: CartPriceChange[];
+  dismissPriceChanges: () => void;
+  // Refreshes every line against the latest catalog
+  revalidateCart: () => Promise<CartRevalidation>;
+  // True while a signed-in user's cart is being loaded from the server
+  syncing: boolean;
+  // Eligibility is evaluated against the cart with lib/coupons
+  coupon: Coupon | null;
+  applyCoupon: (code: string) => Promise<Coupon>;
+  removeCoupon: () => void;
 }
 
+const GUEST_CART_KEY = "cart:guest";
+const SYNC_DELAY = 500;
+
+const getCartKey = (userId?: string) => (userId ? `cart:${userId}` : GUEST_CART_KEY);
+
+// A coupon belongs to the cart it was applied to
+const getCouponKey = (cartKey: string) => `${cartKey}:coupon`;
+
+const readCart = (key: string): CartItem[] => {
+  try {
+    // Carts saved before they were scoped per user belong to the guest
+    const saved =
+      localStorage.getItem(key) ??
+      (key === GUEST_CART_KEY ? localStorage.getItem("cart") : null);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+const readCoupon = (cartKey: string): Coupon | null => {
+  try {
+    const saved = localStorage.getItem(getCouponKey(cartKey));
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getCartLineId = (item: Pick<CartItem, "product" | "variantId">) =>
+  getLineId(item.product.id, item.variantId);
+
+export const getLineVariant = (item: CartItem) => getVariant(item.product, item.variantId);
+
+export const getLinePrice = (item: CartItem) =>
+  getVariantPrice(item.product, getLineVariant(item));
+
+// A variant that no longer exists can't be bought
+export const getLineStock = (item: CartItem) =>
+  item.variantId ? getLineVariant(item)?.stock ?? 0 : item.product.stock;
+
+const toCartLineInputs = (items: CartItem[]) =>
+  items.map(({ product, variantId, quantity }) => ({
+    productId: product.id,
+    variantId,
+    quantity,
+  }));
+
+// Same limit as updateQuantity: at most the units in stock, but at least one
+// so unavailable lines stay visible
+const clampToStock = (item: CartItem) => ({
+  ...item,
+  quantity: Math.min(item.quantity, Math.max(getLineStock(item), 1)),
+});
+
+// A product in both carts keeps the larger quantity rather than the sum, so
+// logging in twice on the same device never doubles what the shopper picked.
+// Server lines carry the latest stock, so they're the ones kept.
+const mergeCarts = (serverItems: CartItem[], guestItems: CartItem[]) => {
+  const merged = [...serverItems];
+  guestItems.forEach((guestItem) => {
+    const index = merged.findIndex((item) => getCartLineId(item) === getCartLineId(guestItem));
+    if (index === -1) {
+      merged.push(guestItem);
+    } else if (guestItem.quantity > merged[index].quantity) {
+      merged[index] = { ...merged[index], quantity: guestItem.quantity };
+    }
+  });
+  return merged.map(clampToStock);
+};
+
+export const isOutOfStock = (item: CartItem) => getLineStock(item) <= 0;
+
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 export const CartProvider = ({ children }: { children: ReactNode }) => {
-  const [cartItems, setCartItems] = useState<CartItem[]>(() => {
-    // Load cart from localStorage if available
-    if (typeof window !== 'undefined') {
-      const savedCart = localStorage.getItem('cart');
-      return savedCart ? JSON.parse(savedCart) : [];
+  const { user } = useAuth();
+  // Effects follow the account, not every refresh of the user object
+  const userId = user?.id;
+  const { fetchProducts } = useProducts();
+  // Items are kept with the key they belong to so one user's cart is never
+  // written under another's while switching accounts
+  const [cart, setCart] = useState(() => ({
+    key: GUEST_CART_KEY,
+    items: readCart(GUEST_CART_KEY),
+  }));
+  const [syncing, setSyncing] = useState(false);
+  const [priceChanges, setPriceChanges] = useState<CartPriceChange[]>([]);
+  // Kept with its cart key for the same reason as the items
+  const [couponState, setCouponState] = useState(() => ({
+    key: GUEST_CART_KEY,
+    coupon: readCoupon(GUEST_CART_KEY),
+  }));
+  // Last item list the server is known to have, to avoid redundant saves
+  const syncedItems = useRef<string | null>(null);
+  // Cart key before the current user, to tell a sign-out apart
+  const previousKey = useRef(GUEST_CART_KEY);
+
+  useEffect(() => {
+    const key = getCartKey(userId);
+    const signedOutFrom = previousKey.current;
+    previousKey.current = key;
+    syncedItems.current = null;
+    setCart({ key, items: readCart(key) });
+
+    if (!userId) {
+      // Signing out leaves nothing of the account's coupon behind
+      if (signedOutFrom !== GUEST_CART_KEY) {
+        localStorage.removeItem(getCouponKey(signedOutFrom));
+      }
+      setCouponState({ key, coupon: readCoupon(key) });
+      setSyncing(false);
+      return;
     }
-    return [];
-  });
 
-  // Save cart to localStorage whenever it changes
+    // A code applied before signing in moves over with the guest cart
+    setCouponState((prev) => ({
+      key,
+      coupon:
+        prev.key === key
+          ? prev.coupon
+          : readCoupon(key) ?? (prev.key === GUEST_CART_KEY ? prev.coupon : null),
+    }));
+    localStorage.removeItem(getCouponKey(GUEST_CART_KEY));
+
+    let cancelled = false;
+    const loadServerCart = async () => {
+      setSyncing(true);
+      try {
+        const serverItems = await cartApi.getCart();
+        const guestItems = readCart(GUEST_CART_KEY);
+        let items = serverItems;
+
+        if (guestItems.length > 0) {
+          items = await cartApi.saveCart(toCartLineInputs(mergeCarts(serverItems, guestItems)));
+          localStorage.removeItem(GUEST_CART_KEY);
+          localStorage.removeItem("cart");
+        }
+
+        if (!cancelled) {
+          syncedItems.current = JSON.stringify(toCartLineInputs(items));
+          setCart({ key, items });
+        }
+      } catch (err) {
+        // Keep working from the local copy; the next change retries the save
+        console.error("Error loading cart:", err);
+      } finally {
+        if (!cancelled) setSyncing(false);
+      }
+    };
+
+    loadServerCart();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    localStorage.setItem(cart.key, JSON.stringify(cart.items));
+  }, [cart]);
+
+  useEffect(() => {
+    const key = getCouponKey(couponState.key);
+    if (couponState.coupon) {
+      localStorage.setItem(key, JSON.stringify(couponState.coupon));
+    } else {
+      localStorage.removeItem(key);
+    }
+  }, [couponState]);
+
+  // Push local changes to the server once the shopper pauses
   useEffect(() => {
-    localStorage.setItem('cart', JSON.stringify(cartItems));
-  }, [cartItems]);
+    if (!userId || cart.key !== getCartKey(userId) || syncing) return;
+
+    const lines = toCartLineInputs(cart.items);
+    const serialized = JSON.stringify(lines);
+    if (serialized === syncedItems.current) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        await cartApi.saveCart(lines);
+        syncedItems.current = serialized;
+      } catch (err) {
+        console.error("Error saving cart:", err);
+      }
+    }, SYNC_DELAY);
 
+    return () => clearTimeout(timer);
+  }, [cart, userId, syncing]);
+
+  const setCartItems = (update: (items: CartItem[]) => CartItem[]) => {
+    setCart((prev) => ({ ...prev, items: update(prev.items) }));
+  };
+
+  const coupon = couponState.coupon;
+  const setCoupon = (next: Coupon | null) => {
+    setCouponState((prev) => ({ ...prev, coupon: next }));
+  };
+
+  const cartItems = cart.items;
   const totalItems = cartItems.reduce((total, item) => total + item.quantity, 0);
 
-  const addToCart = (product: Product) => {
+  const addToCart = (product: Product, quantity = 1, variant?: ProductVariant) => {
+    const lineId = getCartLineId({ product, variantId: variant?.id });
+    const stock = getVariantStock(product, variant);
+    const inCart = cartItems.find(item => getCartLineId(item) === lineId)?.quantity ?? 0;
+    const added = Math.max(0, Math.min(quantity, stock - inCart));
+    if (added === 0) return 0;
+
     setCartItems((prevItems) => {
-      const existingItem = prevItems.find(item => item.product.id === product.id);
-      
+      const existingItem = prevItems.find(item => getCartLineId(item) === lineId);
+
       if (existingItem) {
         return prevItems.map(item =>
-          item.product.id === product.id
-            ? { ...item, quantity: item.quantity + 1 }
+          getCartLineId(item) === lineId
+            ? { ...item, product, quantity: Math.min(item.quantity + added, stock) }
             : item
         );
       }
-      
-      return [...prevItems, { product, quantity: 1 }];
+
+      return [...prevItems, { product, variantId: variant?.id, quantity: added }];
     });
+    return added;
   };
 
-  const removeFromCart = (productId: string) => {
-    setCartItems(prevItems => prevItems.filter(item => item.product.id !== productId));
+  const removeFromCart = (lineId: string) => {
+    setCartItems(prevItems => prevItems.filter(item => getCartLineId(item) !== lineId));
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (lineId: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(lineId);
       return;
     }
 
     setCartItems(prevItems =>
       prevItems.map(item =>
-        item.product.id === productId ? { ...item, quantity } : item
+        getCartLineId(item) === lineId
+          ? { ...item, quantity: Math.min(quantity, Math.max(getLineStock(item), 1)) }
+          : item
       )
     );
   };
 
   const clearCart = () => {
-    setCartItems([]);
+    setCartItems(() => []);
+    setPriceChanges([]);
+    setCoupon(null);
+  };
+
+  const applyCoupon = async (code: string) => {
+    const found = await couponsApi.getCouponByCode(code);
+    setCoupon(found);
+    return found;
+  };
+
+  // Picks up expiry, usage and deactivation since the code was applied
+  const refreshCoupon = async () => {
+    if (!coupon) return;
+    try {
+      setCoupon(await couponsApi.getCouponByCode(coupon.code));
+    } catch (err) {
+      console.error("Error refreshing coupon:", err);
+      setCoupon(null);
+    }
+  };
+
+  const revalidateCart = async (): Promise<CartRevalidation> => {
+    const [latestProducts] = await Promise.all([fetchProducts(), refreshCoupon()]);
+    const changes: CartPriceChange[] = [];
+    const stockIssues: string[] = [];
+
+    const items = cartItems.map((item) => {
+      const lineId = getCartLineId(item);
+      // Products removed from the catalog stay in the cart as unavailable
+      const latestItem = {
+        ...item,
+        product:
+          latestProducts.find((product) => product.id === item.product.id) ??
+          { ...item.product, stock: 0, variants: [] },
+      };
+      const latestPrice = getLinePrice(latestItem);
+
+      if (
+        toAmount(latestPrice) !== toAmount(getLinePrice(item)) ||
+        latestItem.product.currency !== item.product.currency
+      ) {
+        changes.push({
+          lineId,
+          name: latestItem.product.name,
+          previousPrice: getLinePrice(item),
+          previousCurrency: item.product.currency,
+        });
+      }
+
+      const stock = getLineStock(latestItem);
+      const quantity = stock > 0 ? Math.min(item.quantity, stock) : item.quantity;
+      if (stock <= 0 || quantity < item.quantity) {
+        stockIssues.push(lineId);
+      }
+      return { ...latestItem, quantity };
+    });
+
+    // Lines added or removed while the catalog was loading are left alone
+    setCartItems((prevItems) =>
+      prevItems.map(
+        (item) =>
+          items.find((updated) => getCartLineId(updated) === getCartLineId(item)) ?? item
+      )
+    );
+    if (changes.length > 0) {
+      setPriceChanges((prev) => [
+        ...prev.filter((change) => !changes.some((next) => next.lineId === change.lineId)),
+        ...changes,
+      ]);
+    }
+
+    return { priceChanges: changes, stockIssues };
   };
 
   return (
-    <CartContext.Provider 
-      value={{ 
-        cartItems, 
-        addToCart, 
-        removeFromCart, 
-        updateQuantity, 
+    <CartContext.Provider
+      value={{
+        cartItems,
+        addToCart,
+        removeFromCart,
+        updateQuantity,
         clearCart,
-        totalItems 
+        totalItems,
+        priceChanges,
+        dismissPriceChanges: () => setPriceChanges([]),
+        revalidateCart,
+        syncing,
+        coupon,
+        applyCoupon,
+        removeCoupon: () => setCoupon(null),
       }}
     >
       {children}
@@ -94,4 +399,4 @@ export const useCart = () => {
     throw new Error('useCart must be used within a CartProvider');
   }
   return context;
-};
\ No newline at end of file
+};
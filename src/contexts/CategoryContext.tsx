@@ -0,0 +1,94 @@
+import { createContext, useContext, ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import * as categoriesApi from "@/api/categories";
+import { Category } from "@/api/categories";
+import { getErrorMessage } from "@/api/client";
+import { productKeys } from "@/contexts/ProductContext";
+
+export type { Category } from "@/api/categories";
+
+interface CategoryContextType {
+  categories: Category[];
+  loading: boolean;
+  error: string | null;
+  createCategory: (formData: FormData) => Promise<Category>;
+  updateCategory: (id: string, formData: FormData) => Promise<Category>;
+  deleteCategory: (id: string) => Promise<void>;
+}
+
+const categoryKeys = {
+  all: ["categories"] as const,
+};
+
+// Categories change even less often than products
+const CATEGORY_STALE_TIME = 5 * 60 * 1000;
+
+const NO_CATEGORIES: Category[] = [];
+
+const CategoryContext = createContext<CategoryContextType | undefined>(undefined);
+
+export const CategoryProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+
+  const categoriesQuery = useQuery({
+    queryKey: categoryKeys.all,
+    queryFn: categoriesApi.getCategories,
+    staleTime: CATEGORY_STALE_TIME,
+  });
+
+  const categories = categoriesQuery.data ?? NO_CATEGORIES;
+  const error = categoriesQuery.error
+    ? getErrorMessage(categoriesQuery.error, "Failed to load categories")
+    : null;
+
+  const createMutation = useMutation({
+    mutationFn: categoriesApi.createCategory,
+    onSuccess: (category) =>
+      queryClient.setQueryData<Category[]>(categoryKeys.all, (list = []) => [...list, category]),
+    onError: (err) => console.error("Error creating category:", err),
+  });
+
+  // Products carry their category's name, so a rename reaches them too
+  const updateMutation = useMutation({
+    mutationFn: ({ id, formData }: { id: string; formData: FormData }) =>
+      categoriesApi.updateCategory(id, formData),
+    onSuccess: (updated) =>
+      queryClient.setQueryData<Category[]>(categoryKeys.all, (list) =>
+        list?.map((category) => (category.id === updated.id ? updated : category))
+      ),
+    onError: (err) => console.error("Error updating category:", err),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: productKeys.all }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: categoriesApi.deleteCategory,
+    onSuccess: (_result, id) =>
+      queryClient.setQueryData<Category[]>(categoryKeys.all, (list) =>
+        list?.filter((category) => category.id !== id)
+      ),
+    onError: (err) => console.error("Error deleting category:", err),
+  });
+
+  return (
+    <CategoryContext.Provider
+      value={{
+        categories,
+        loading: categoriesQuery.isLoading,
+        error,
+        createCategory: (formData) => createMutation.mutateAsync(formData),
+        updateCategory: (id, formData) => updateMutation.mutateAsync({ id, formData }),
+        deleteCategory: (id) => deleteMutation.mutateAsync(id),
+      }}
+    >
+      {children}
+    </CategoryContext.Provider>
+  );
+};
+
+export const useCategories = () => {
+  const context = useContext(CategoryContext);
+  if (context === undefined) {
+    throw new Error("useCategories must be used within a CategoryProvider");
+  }
+  return context;
+};
@@ -0,0 +1,72 @@
+import { createContext, useCallback, useContext, useState, ReactNode, useEffect } from "react";
+import { CURRENCY_CODES, CurrencyCode } from "@/lib/currency";
+import { convertMoney, formatMoney, toAmount } from "@/lib/money";
+import { useStoreSettings } from "./StoreSettingsContext";
+
+interface CurrencyContextType {
+  // Currency prices are shown in for this shopper
+  currency: CurrencyCode;
+  availableCurrencies: CurrencyCode[];
+  setCurrency: (currency: CurrencyCode) => void;
+  convert: (amount: number | string, from?: CurrencyCode) => number | null;
+  formatPrice: (amount: number | string, from?: CurrencyCode) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const CurrencyProvider = ({ children }: { children: ReactNode }) => {
+  const { settings } = useStoreSettings();
+  const [preferredCurrency, setPreferredCurrency] = useState<CurrencyCode | null>(
+    () => localStorage.getItem("displayCurrency") as CurrencyCode | null
+  );
+
+  const { defaultCurrency, exchangeRates } = settings;
+  const availableCurrencies = CURRENCY_CODES.filter(
+    (code) => code === defaultCurrency || exchangeRates[code]
+  );
+  // Fall back when the store stops offering the shopper's choice
+  const currency = availableCurrencies.includes(preferredCurrency)
+    ? preferredCurrency
+    : defaultCurrency;
+
+  useEffect(() => {
+    if (preferredCurrency) {
+      localStorage.setItem("displayCurrency", preferredCurrency);
+    }
+  }, [preferredCurrency]);
+
+  // Stable while the currency and rates are, so pages can memoize on it
+  const convert = useCallback(
+    (amount: number | string, from: CurrencyCode = defaultCurrency) =>
+      convertMoney(toAmount(amount), from, currency, defaultCurrency, exchangeRates),
+    [currency, defaultCurrency, exchangeRates]
+  );
+
+  // Shows the original currency when no rate is configured for it
+  const formatPrice = (amount: number | string, from: CurrencyCode = defaultCurrency) => {
+    const converted = convert(amount, from);
+    return converted === null ? formatMoney(amount, from) : formatMoney(converted, currency);
+  };
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        currency,
+        availableCurrencies,
+        setCurrency: setPreferredCurrency,
+        convert,
+        formatPrice,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error("useCurrency must be used within a CurrencyProvider");
+  }
+  return context;
+};
@@ -0,0 +1,210 @@
+import { createContext, useCallback, useContext, useState, ReactNode, useEffect } from "react";
+import * as ordersApi from "@/api/orders";
+import { NewOrder, Order, OrderStatus } from "@/api/orders";
+import { getErrorMessage } from "@/api/client";
+import { Coupon } from "@/api/coupons";
+import { StoreSettings } from "@/api/settings";
+import { CheckoutDetails } from "@/lib/checkout";
+import { priceOrder, toPricingLines } from "@/lib/pricing";
+import { PaymentIntent } from "@/lib/payments";
+import { CurrencyCode } from "@/lib/currency";
+import { useAuth } from "./AuthContext";
+import { describeVariant, getVariantImage } from "@/lib/variants";
+import { CartItem, getCartLineId, getLinePrice, getLineVariant } from "./CartContext";
+import { useCurrency } from "./CurrencyContext";
+import { useStoreSettings } from "./StoreSettingsContext";
+
+export type { Order, OrderItem, OrderStatus } from "@/api/orders";
+
+interface OrderContextType {
+  orders: Order[];
+  allOrders: Order[];
+  // Each list loads on its own, so one finishing doesn't hide the other's spinner
+  ordersLoading: boolean;
+  allOrdersLoading: boolean;
+  error: string | null;
+  placeOrder: (
+    cartItems: CartItem[],
+    details: CheckoutDetails,
+    coupon?: Coupon | null
+  ) => Promise<Order>;
+  fetchMyOrders: () => Promise<void>;
+  fetchAllOrders: () => Promise<void>;
+  updateOrderStatus: (id: string, status: OrderStatus) => Promise<Order>;
+  recordPayment: (orderId: string, intent: PaymentIntent) => Promise<Order>;
+}
+
+const OrderContext = createContext<OrderContextType | undefined>(undefined);
+
+// Orders are recorded in the currency the shopper checked out in
+const buildOrder = (
+  cartItems: CartItem[],
+  details: CheckoutDetails,
+  coupon: Coupon | null,
+  settings: StoreSettings,
+  currency: CurrencyCode,
+  convert: (amount: number | string, from?: CurrencyCode) => number | null
+): NewOrder => {
+  const unpriced = cartItems.find(
+    (item) => convert(getLinePrice(item), item.product.currency) === null
+  );
+  if (unpriced) {
+    throw new Error(`${unpriced.product.name} cannot be priced in ${currency}`);
+  }
+
+  // A coupon that no longer qualifies is dropped rather than failing the order
+  const pricing = priceOrder({
+    lines: toPricingLines(cartItems, convert),
+    deliveryMethod: details.deliveryMethod,
+    destination: details.shippingAddress,
+    coupon,
+    settings,
+    currency,
+    convert,
+  });
+
+  const items = cartItems.map((item) => {
+    const { product, quantity } = item;
+    const variant = getLineVariant(item);
+    return {
+      productId: product.id,
+      variantId: variant?.id,
+      variantName: describeVariant(product, variant) || undefined,
+      sku: variant?.sku,
+      name: product.name,
+      price: convert(getLinePrice(item), product.currency),
+      quantity,
+      imageUrl: getVariantImage(product, variant)?.url,
+      discount: pricing.discount?.lineDiscounts[getCartLineId(item)],
+    };
+  });
+
+  return {
+    items,
+    ...details,
+    shippingFee: pricing.shipping.amount,
+    couponCode: pricing.discount?.coupon.code,
+    discount: pricing.discount?.total ?? 0,
+    tax: pricing.tax,
+    taxRate: pricing.taxRate,
+    taxInclusive: pricing.taxInclusive,
+    subtotal: pricing.subtotal,
+    total: pricing.total,
+    currency,
+  };
+};
+
+export const OrderProvider = ({ children }: { children: ReactNode }) => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [allOrders, setAllOrders] = useState<Order[]>([]);
+  const [ordersLoading, setOrdersLoading] = useState<boolean>(false);
+  const [allOrdersLoading, setAllOrdersLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { currency, convert } = useCurrency();
+  const { settings } = useStoreSettings();
+
+  // Never show one user's orders to the next person on this browser
+  useEffect(() => {
+    setOrders([]);
+    setAllOrders([]);
+  }, [user?.id]);
+
+  const placeOrder = async (
+    cartItems: CartItem[],
+    details: CheckoutDetails,
+    coupon: Coupon | null = null
+  ) => {
+    setError(null);
+    try {
+      const order = await ordersApi.createOrder(
+        buildOrder(
+          cartItems,
+          details,
+          coupon,
+          settings,
+          currency,
+          convert
+        )
+      );
+      setOrders(prev => [order, ...prev]);
+      return order;
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to place order"));
+      console.error("Error placing order:", err);
+      throw err;
+    }
+  };
+
+  // Stable, so pages can load their list from an effect
+  const fetchMyOrders = useCallback(async () => {
+    setOrdersLoading(true);
+    setError(null);
+    try {
+      setOrders(await ordersApi.getMyOrders());
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to load your orders"));
+      console.error("Error fetching orders:", err);
+    } finally {
+      setOrdersLoading(false);
+    }
+  }, []);
+
+  const fetchAllOrders = useCallback(async () => {
+    setAllOrdersLoading(true);
+    setError(null);
+    try {
+      setAllOrders(await ordersApi.getAllOrders());
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to load orders"));
+      console.error("Error fetching orders:", err);
+    } finally {
+      setAllOrdersLoading(false);
+    }
+  }, []);
+
+  const updateOrderStatus = async (id: string, status: OrderStatus) => {
+    const order = await ordersApi.updateOrderStatus(id, status);
+    setAllOrders(prev => prev.map(existing => (existing.id === id ? order : existing)));
+    setOrders(prev => prev.map(existing => (existing.id === id ? order : existing)));
+    return order;
+  };
+
+  const recordPayment = async (orderId: string, intent: PaymentIntent) => {
+    const order = await ordersApi.updateOrderPayment(orderId, {
+      paymentMethod: intent.provider,
+      paymentStatus: intent.status,
+      paymentReference: intent.id,
+    });
+    setAllOrders(prev => prev.map(existing => (existing.id === orderId ? order : existing)));
+    setOrders(prev => prev.map(existing => (existing.id === orderId ? order : existing)));
+    return order;
+  };
+
+  return (
+    <OrderContext.Provider
+      value={{
+        orders,
+        allOrders,
+        ordersLoading,
+        allOrdersLoading,
+        error,
+        placeOrder,
+        fetchMyOrders,
+        fetchAllOrders,
+        updateOrderStatus,
+        recordPayment,
+      }}
+    >
+      {children}
+    </OrderContext.Provider>
+  );
+};
+
+export const useOrders = () => {
+  const context = useContext(OrderContext);
+  if (context === undefined) {
+    throw new Error("useOrders must be used within an OrderProvider");
+  }
+  return context;
+};
@@ -1,203 +1,248 @@
-import { createContext, useContext, useState, ReactNode, useEffect } from "react";
-import axios from "axios";
-import { useAuth } from "./AuthContext";
-import { config } from "../config";
-
-export interface ProductImage {
-  id: string;
-  url: string;
-  altText?: string;
-  isPrimary?: boolean;
-  productId: string;
-}
+import { createContext, useCallback, useContext, ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import * as productsApi from "@/api/products";
+import { BulkProductAction, Product } from "@/api/products";
+import * as inventoryApi from "@/api/inventory";
+import { StockAdjustment, StockMovement } from "@/api/inventory";
+import { getErrorMessage } from "@/api/client";
 
-export interface Product {
-  id: string;
-  name: string;
-  description: string;
-  price: number | string;
-  category: string | null;
-  stock: number;
-  images: ProductImage[];
-}
+export type { Product, ProductImage } from "@/api/products";
 
 interface ProductContextType {
   products: Product[];
   loading: boolean;
   error: string | null;
   addProduct: (product: FormData) => Promise<Product>;
-  updateProduct: (id: string, product: Partial<Product>) => Promise<Product>;
+  updateProduct: (id: string, product: FormData | Partial<Product>) => Promise<Product>;
   deleteProduct: (id: string) => Promise<void>;
+  // Returns how many products were affected
+  bulkUpdateProducts: (ids: string[], action: BulkProductAction) => Promise<number>;
+  // Records the change in the product's stock ledger
+  adjustStock: (
+    id: string,
+    adjustment: StockAdjustment
+  ) => Promise<{ product: Product; movement: StockMovement }>;
   getProduct: (id: string) => Product | undefined;
-  fetchProducts: () => Promise<void>;
+  loadProduct: (id: string) => Promise<Product>;
+  prefetchProduct: (id: string) => void;
+  fetchProducts: () => Promise<Product[]>;
 }
 
+export const productKeys = {
+  all: ["products"] as const,
+  list: () => [...productKeys.all, "list"] as const,
+  detail: (id: string) => [...productKeys.all, "detail", id] as const,
+};
+
+// The catalog changes rarely; product pages can tolerate slightly older data
+const PRODUCT_LIST_STALE_TIME = 60 * 1000;
+const PRODUCT_DETAIL_STALE_TIME = 5 * 60 * 1000;
+
+const NO_PRODUCTS: Product[] = [];
+
+const detailQuery = (id: string) => ({
+  queryKey: productKeys.detail(id),
+  queryFn: () => productsApi.getProduct(id),
+  staleTime: PRODUCT_DETAIL_STALE_TIME,
+});
+
+// Text fields we can show before the server has answered
+const toOptimisticFields = (changes: FormData | Partial<Product>): Partial<Product> => {
+  if (!(changes instanceof FormData)) return changes;
+
+  const fields: Partial<Product> = {};
+  const text = (key: string) => {
+    const value = changes.get(key);
+    return typeof value === "string" ? value : undefined;
+  };
+  if (text("name") !== undefined) fields.name = text("name");
+  if (text("description") !== undefined) fields.description = text("description");
+  if (text("categoryId") !== undefined) fields.categoryId = text("categoryId");
+  if (text("price") !== undefined) fields.price = parseFloat(text("price")) || 0;
+  if (text("stock") !== undefined) fields.stock = parseInt(text("stock")) || 0;
+  return fields;
+};
+
 const ProductContext = createContext<ProductContextType | undefined>(undefined);
 
 export const ProductProvider = ({ children }: { children: ReactNode }) => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const { getToken } = useAuth();
-
-  const fetchProducts = async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const token = await getToken();
-      if (!token) {
-        throw new Error("Authentication required");
-      }
-      
-      const response = await axios.get(`${config.apiBaseUrl}/item/product-details`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-      
-      if (response.data?.productDetails) {
-        setProducts(response.data.productDetails);
-      } else {
-        throw new Error("Invalid response format");
-      }
-    } catch (err) {
-      const errorMessage = axios.isAxiosError(err) 
-        ? err.response?.data?.message || "Failed to fetch products"
-        : "Failed to fetch products";
-      setError(errorMessage);
-      console.error("Error fetching products:", err);
-      throw err;
-    } finally {
-      setLoading(false);
+  const queryClient = useQueryClient();
+
+  const productsQuery = useQuery({
+    queryKey: productKeys.list(),
+    queryFn: productsApi.getProducts,
+    staleTime: PRODUCT_LIST_STALE_TIME,
+    // Keep stock and prices current for shoppers returning to the tab
+    refetchOnWindowFocus: true,
+  });
+
+  const products = productsQuery.data ?? NO_PRODUCTS;
+  const error = productsQuery.error
+    ? getErrorMessage(productsQuery.error, "Failed to fetch products")
+    : null;
+
+  const snapshot = (id?: string) => ({
+    list: queryClient.getQueryData<Product[]>(productKeys.list()),
+    detail: id ? queryClient.getQueryData<Product>(productKeys.detail(id)) : undefined,
+  });
+
+  const restore = (previous: ReturnType<typeof snapshot>, id?: string) => {
+    queryClient.setQueryData(productKeys.list(), previous.list);
+    if (id) {
+      queryClient.setQueryData(productKeys.detail(id), previous.detail);
     }
   };
 
-  useEffect(() => {
-    fetchProducts();
-  }, []);
-
-  const addProduct = async (formData: FormData) => {
-    setLoading(true);
-    setError(null);
-    try {
-      const token = await getToken();
-      if (!token) {
-        throw new Error("Authentication required");
-      }
-      
-      const response = await axios.post(
-        `${config.apiBaseUrl}/item/add-products`, 
-        formData, 
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "multipart/form-data",
-          },
-        }
+  const addMutation = useMutation({
+    mutationFn: productsApi.createProduct,
+    onMutate: async (formData: FormData) => {
+      await queryClient.cancelQueries({ queryKey: productKeys.list() });
+      const previous = snapshot();
+      const placeholder: Product = {
+        id: `pending-${Date.now()}`,
+        name: "",
+        description: "",
+        price: 0,
+        category: "",
+        stock: 0,
+        images: [],
+        options: [],
+        variants: [],
+        ...toOptimisticFields(formData),
+      };
+      queryClient.setQueryData<Product[]>(productKeys.list(), (list = []) => [
+        ...list,
+        placeholder,
+      ]);
+      return { previous, placeholderId: placeholder.id };
+    },
+    onSuccess: (product, _formData, context) => {
+      queryClient.setQueryData<Product[]>(productKeys.list(), (list = []) =>
+        list.map((item) => (item.id === context.placeholderId ? product : item))
       );
-      
-      if (response.data) {
-        setProducts(prev => [...prev, response.data]);
-        return response.data;
-      }
-      throw new Error("Invalid response format");
-    } catch (err) {
-      const errorMessage = axios.isAxiosError(err) 
-        ? err.response?.data?.message || "Failed to add product"
-        : "Failed to add product";
-      setError(errorMessage);
+      queryClient.setQueryData(productKeys.detail(product.id), product);
+    },
+    onError: (err, _formData, context) => {
       console.error("Error adding product:", err);
-      throw err;
-    } finally {
-      setLoading(false);
-    }
-  };
+      if (context) restore(context.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: productKeys.list() }),
+  });
 
-  const updateProduct = async (id: string, updatedFields: Partial<Product>) => {
-    setLoading(true);
-    setError(null);
-    try {
-      const token = await getToken();
-      if (!token) {
-        throw new Error("Authentication required");
-      }
-      
-      const response = await axios.put(
-        `${config.apiBaseUrl}/item/update-products/${id}`,
-        updatedFields,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
+  const updateMutation = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: FormData | Partial<Product> }) =>
+      productsApi.updateProduct(id, changes),
+    onMutate: async ({ id, changes }) => {
+      await queryClient.cancelQueries({ queryKey: productKeys.all });
+      const previous = snapshot(id);
+      const fields = toOptimisticFields(changes);
+      queryClient.setQueryData<Product[]>(productKeys.list(), (list) =>
+        list?.map((product) => (product.id === id ? { ...product, ...fields } : product))
       );
-      
-      if (response.data?.updatedProduct) {
-        setProducts(prev => 
-          prev.map(product => 
-            product.id === id ? response.data.updatedProduct : product
-          )
-        );
-        return response.data.updatedProduct;
-      }
-      throw new Error("Invalid response format");
-    } catch (err) {
-      const errorMessage = axios.isAxiosError(err) 
-        ? err.response?.data?.message || "Failed to update product"
-        : "Failed to update product";
-      setError(errorMessage);
+      queryClient.setQueryData<Product>(productKeys.detail(id), (product) =>
+        product ? { ...product, ...fields } : product
+      );
+      return { previous };
+    },
+    onSuccess: (updatedProduct, { id }) => {
+      queryClient.setQueryData<Product[]>(productKeys.list(), (list) =>
+        list?.map((product) => (product.id === id ? updatedProduct : product))
+      );
+      queryClient.setQueryData(productKeys.detail(id), updatedProduct);
+    },
+    onError: (err, { id }, context) => {
       console.error("Error updating product:", err);
-      throw err;
-    } finally {
-      setLoading(false);
-    }
-  };
+      if (context) restore(context.previous, id);
+    },
+    onSettled: (_product, _err, { id }) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: productKeys.list() }),
+        queryClient.invalidateQueries({ queryKey: productKeys.detail(id) }),
+      ]),
+  });
 
-  const deleteProduct = async (id: string) => {
-    setLoading(true);
-    setError(null);
-    try {
-      const token = await getToken();
-      if (!token) {
-        throw new Error("Authentication required");
-      }
-      
-      await axios.delete(
-        `${config.apiBaseUrl}/item/delete-products/${id}`,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
+  const deleteMutation = useMutation({
+    mutationFn: productsApi.deleteProduct,
+    onMutate: async (id: string) => {
+      await queryClient.cancelQueries({ queryKey: productKeys.all });
+      const previous = snapshot(id);
+      queryClient.setQueryData<Product[]>(productKeys.list(), (list) =>
+        list?.filter((product) => product.id !== id)
       );
-      
-      setProducts(prev => prev.filter(product => product.id !== id));
-    } catch (err) {
-      const errorMessage = axios.isAxiosError(err) 
-        ? err.response?.data?.message || "Failed to delete product"
-        : "Failed to delete product";
-      setError(errorMessage);
+      queryClient.removeQueries({ queryKey: productKeys.detail(id) });
+      return { previous };
+    },
+    onError: (err, id, context) => {
       console.error("Error deleting product:", err);
-      throw err;
-    } finally {
-      setLoading(false);
-    }
-  };
+      if (context) restore(context.previous, id);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: productKeys.list() }),
+  });
+
+  // Too many products change at once to patch the cache; refetch instead
+  const bulkMutation = useMutation({
+    mutationFn: ({ ids, action }: { ids: string[]; action: BulkProductAction }) =>
+      productsApi.bulkUpdateProducts(ids, action),
+    onError: (err) => console.error("Error updating products:", err),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: productKeys.all }),
+  });
+
+  // Not optimistic: the server owns the count and may clamp the change
+  const adjustMutation = useMutation({
+    mutationFn: ({ id, adjustment }: { id: string; adjustment: StockAdjustment }) =>
+      inventoryApi.adjustStock(id, adjustment),
+    onSuccess: ({ product: adjusted }, { id }) => {
+      queryClient.setQueryData<Product[]>(productKeys.list(), (list) =>
+        list?.map((product) => (product.id === id ? adjusted : product))
+      );
+      queryClient.setQueryData(productKeys.detail(id), adjusted);
+    },
+    onError: (err) => console.error("Error adjusting stock:", err),
+  });
+
+  // Always goes to the server, for callers that must not act on stale data
+  const fetchProducts = useCallback(
+    () =>
+      queryClient.fetchQuery({
+        queryKey: productKeys.list(),
+        queryFn: productsApi.getProducts,
+        staleTime: 0,
+      }),
+    [queryClient]
+  );
+
+  // Reads the cache rather than products, so it stays stable for effects
+  const getProduct = useCallback(
+    (id: string) =>
+      queryClient.getQueryData<Product>(productKeys.detail(id)) ??
+      queryClient.getQueryData<Product[]>(productKeys.list())?.find((product) => product.id === id),
+    [queryClient]
+  );
+
+  // Served from cache while fresh; concurrent callers share one request
+  const loadProduct = useCallback(
+    (id: string) => queryClient.fetchQuery(detailQuery(id)),
+    [queryClient]
+  );
 
-  const getProduct = (id: string) => {
-    return products.find(product => product.id === id);
+  const prefetchProduct = (id: string) => {
+    queryClient.prefetchQuery(detailQuery(id));
   };
 
   return (
     <ProductContext.Provider
       value={{
         products,
-        loading,
+        loading: productsQuery.isLoading,
         error,
-        addProduct,
-        updateProduct,
-        deleteProduct,
+        addProduct: (formData) => addMutation.mutateAsync(formData),
+        updateProduct: (id, changes) => updateMutation.mutateAsync({ id, changes }),
+        deleteProduct: (id) => deleteMutation.mutateAsync(id),
+        bulkUpdateProducts: (ids, action) => bulkMutation.mutateAsync({ ids, action }),
+        adjustStock: (id, adjustment) => adjustMutation.mutateAsync({ id, adjustment }),
         getProduct,
+        loadProduct,
+        prefetchProduct,
         fetchProducts,
       }}
     >
@@ -212,4 +257,4 @@ export const useProducts = () => {
     throw new Error("useProducts must be used within a ProductProvider");
   }
   return context;
-};
\ No newline at end of file
+};
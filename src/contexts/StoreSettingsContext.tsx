@@ -0,0 +1,71 @@
+import { createContext, useContext, useState, ReactNode, useEffect } from "react";
+import * as settingsApi from "@/api/settings";
+import { DEFAULT_STORE_SETTINGS, StoreSettings } from "@/api/settings";
+
+export type { StoreSettings, SocialLinks } from "@/api/settings";
+
+interface StoreSettingsContextType {
+  settings: StoreSettings;
+  loading: boolean;
+  updateSettings: (changes: Partial<StoreSettings>) => Promise<StoreSettings>;
+}
+
+const StoreSettingsContext = createContext<StoreSettingsContextType | undefined>(undefined);
+
+const SETTINGS_KEY = "storeSettings";
+
+// Start from the last known settings so branding doesn't flash on load. A
+// corrupt copy is dropped; the API replaces it moments later anyway.
+const readSavedSettings = (): StoreSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_STORE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_STORE_SETTINGS;
+  } catch {
+    localStorage.removeItem(SETTINGS_KEY);
+    return DEFAULT_STORE_SETTINGS;
+  }
+};
+
+export const StoreSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const [settings, setSettings] = useState<StoreSettings>(readSavedSettings);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        setSettings(await settingsApi.getStoreSettings());
+      } catch (err) {
+        console.error("Error fetching store settings:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    document.title = settings.storeName;
+  }, [settings]);
+
+  const updateSettings = async (changes: Partial<StoreSettings>) => {
+    const updated = await settingsApi.updateStoreSettings(changes);
+    setSettings(updated);
+    return updated;
+  };
+
+  return (
+    <StoreSettingsContext.Provider value={{ settings, loading, updateSettings }}>
+      {children}
+    </StoreSettingsContext.Provider>
+  );
+};
+
+export const useStoreSettings = () => {
+  const context = useContext(StoreSettingsContext);
+  if (context === undefined) {
+    throw new Error("useStoreSettings must be used within a StoreSettingsProvider");
+  }
+  return context;
+};
@@ -0,0 +1,205 @@
+import { createContext, useContext, useState, ReactNode, useEffect, useRef } from "react";
+import * as wishlistApi from "@/api/wishlist";
+import { WishlistItem } from "@/api/wishlist";
+import { hasVariants } from "@/lib/variants";
+import { useAuth } from "./AuthContext";
+import { getCartLineId, useCart } from "./CartContext";
+import { Product } from "./ProductContext";
+
+export type { WishlistItem } from "@/api/wishlist";
+
+interface WishlistContextType {
+  wishlistItems: WishlistItem[];
+  isInWishlist: (productId: string) => boolean;
+  addToWishlist: (product: Product) => void;
+  removeFromWishlist: (productId: string) => void;
+  // Returns whether the product is saved afterwards
+  toggleWishlist: (product: Product) => boolean;
+  // Returns how many units went into the cart; the item stays saved if none did.
+  // Products sold in variants need options picked on the product page first.
+  moveToCart: (productId: string) => number;
+  // Takes the whole cart line out of the cart; variants are saved as their product
+  saveForLater: (lineId: string) => void;
+  // True while a signed-in user's wishlist is being loaded from the server
+  syncing: boolean;
+}
+
+const GUEST_WISHLIST_KEY = "wishlist:guest";
+const SYNC_DELAY = 500;
+
+const getWishlistKey = (userId?: string) =>
+  userId ? `wishlist:${userId}` : GUEST_WISHLIST_KEY;
+
+const readWishlist = (key: string): WishlistItem[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+const toProductIds = (items: WishlistItem[]) => items.map((item) => item.product.id);
+
+// Unlike carts there are no quantities, so merging is a plain union
+const mergeWishlists = (serverItems: WishlistItem[], guestItems: WishlistItem[]) => [
+  ...serverItems,
+  ...guestItems.filter(
+    (guestItem) => !serverItems.some((item) => item.product.id === guestItem.product.id)
+  ),
+];
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+export const WishlistProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const { cartItems, addToCart, removeFromCart } = useCart();
+  // Kept with the key they belong to, as in CartContext
+  const [wishlist, setWishlist] = useState(() => ({
+    key: GUEST_WISHLIST_KEY,
+    items: readWishlist(GUEST_WISHLIST_KEY),
+  }));
+  const [syncing, setSyncing] = useState(false);
+  // Last product list the server is known to have, to avoid redundant saves
+  const syncedIds = useRef<string | null>(null);
+
+  useEffect(() => {
+    const key = getWishlistKey(userId);
+    syncedIds.current = null;
+    setWishlist({ key, items: readWishlist(key) });
+
+    if (!userId) {
+      setSyncing(false);
+      return;
+    }
+
+    let cancelled = false;
+    const loadServerWishlist = async () => {
+      setSyncing(true);
+      try {
+        const serverItems = await wishlistApi.getWishlist();
+        const guestItems = readWishlist(GUEST_WISHLIST_KEY);
+        let items = serverItems;
+
+        if (guestItems.length > 0) {
+          items = await wishlistApi.saveWishlist(
+            toProductIds(mergeWishlists(serverItems, guestItems))
+          );
+          localStorage.removeItem(GUEST_WISHLIST_KEY);
+        }
+
+        if (!cancelled) {
+          syncedIds.current = JSON.stringify(toProductIds(items));
+          setWishlist({ key, items });
+        }
+      } catch (err) {
+        // Keep working from the local copy; the next change retries the save
+        console.error("Error loading wishlist:", err);
+      } finally {
+        if (!cancelled) setSyncing(false);
+      }
+    };
+
+    loadServerWishlist();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    localStorage.setItem(wishlist.key, JSON.stringify(wishlist.items));
+  }, [wishlist]);
+
+  // Push local changes to the server once the shopper pauses
+  useEffect(() => {
+    if (!userId || wishlist.key !== getWishlistKey(userId) || syncing) return;
+
+    const productIds = toProductIds(wishlist.items);
+    const serialized = JSON.stringify(productIds);
+    if (serialized === syncedIds.current) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        await wishlistApi.saveWishlist(productIds);
+        syncedIds.current = serialized;
+      } catch (err) {
+        console.error("Error saving wishlist:", err);
+      }
+    }, SYNC_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [wishlist, userId, syncing]);
+
+  const setWishlistItems = (update: (items: WishlistItem[]) => WishlistItem[]) => {
+    setWishlist((prev) => ({ ...prev, items: update(prev.items) }));
+  };
+
+  const wishlistItems = wishlist.items;
+
+  const isInWishlist = (productId: string) =>
+    wishlistItems.some((item) => item.product.id === productId);
+
+  const addToWishlist = (product: Product) => {
+    setWishlistItems((prevItems) =>
+      prevItems.some((item) => item.product.id === product.id)
+        ? prevItems
+        : [{ product, addedAt: new Date().toISOString() }, ...prevItems]
+    );
+  };
+
+  const removeFromWishlist = (productId: string) => {
+    setWishlistItems((prevItems) => prevItems.filter((item) => item.product.id !== productId));
+  };
+
+  const toggleWishlist = (product: Product) => {
+    if (isInWishlist(product.id)) {
+      removeFromWishlist(product.id);
+      return false;
+    }
+    addToWishlist(product);
+    return true;
+  };
+
+  const moveToCart = (productId: string) => {
+    const item = wishlistItems.find((saved) => saved.product.id === productId);
+    if (!item || hasVariants(item.product)) return 0;
+
+    const added = addToCart(item.product);
+    if (added > 0) removeFromWishlist(productId);
+    return added;
+  };
+
+  const saveForLater = (lineId: string) => {
+    const item = cartItems.find((line) => getCartLineId(line) === lineId);
+    if (!item) return;
+
+    addToWishlist(item.product);
+    removeFromCart(lineId);
+  };
+
+  return (
+    <WishlistContext.Provider
+      value={{
+        wishlistItems,
+        isInWishlist,
+        addToWishlist,
+        removeFromWishlist,
+        toggleWishlist,
+        moveToCart,
+        saveForLater,
+        syncing,
+      }}
+    >
+      {children}
+    </WishlistContext.Provider>
+  );
+};
+
+export const useWishlist = () => {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error("useWishlist must be used within a WishlistProvider");
+  }
+  return context;
+};
@@ -0,0 +1,26 @@
+import { useEffect, useRef, useState } from "react";
+
+const SEARCH_DELAY = 300;
+
+// Text typed into a search box, and the trimmed search it settles on once the
+// admin stops typing. onSettle runs in the same update, so a list can go back
+// to its first page without fetching twice.
+export const useDebouncedSearch = (onSettle?: () => void) => {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
+  const onSettleRef = useRef(onSettle);
+
+  useEffect(() => {
+    onSettleRef.current = onSettle;
+  }, [onSettle]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchTerm.trim());
+      onSettleRef.current?.();
+    }, SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  return { searchTerm, setSearchTerm, search };
+};
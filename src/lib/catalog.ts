@@ -0,0 +1,150 @@
+import { Product } from "@/contexts/ProductContext";
+import { Category } from "@/api/categories";
+import { CurrencyCode } from "@/lib/currency";
+import { findCategoryBySlug, getDescendantIds } from "@/lib/categories";
+import { getLowestPrice } from "@/lib/variants";
+
+export const CATALOG_SORTS = [
+  { value: "newest", label: "Newest" },
+  { value: "price-asc", label: "Price: Low to High" },
+  { value: "price-desc", label: "Price: High to Low" },
+  { value: "name", label: "Name" },
+] as const;
+
+export type CatalogSort = (typeof CATALOG_SORTS)[number]["value"];
+
+export interface CatalogQuery {
+  search: string;
+  // Category slugs; each also matches its subcategories
+  categories: string[];
+  // In the shopper's display currency
+  minPrice?: number;
+  maxPrice?: number;
+  inStock: boolean;
+  sort: CatalogSort;
+  page: number;
+}
+
+const DEFAULT_SORT: CatalogSort = "newest";
+
+// Products are priced in different currencies, so prices are compared in the
+// shopper's display currency. Products sold in variants go by their cheapest
+// variant. NaN when no exchange rate is configured.
+export type PriceGetter = (product: Product) => number;
+
+export const createPriceGetter =
+  (convert: (amount: number | string, from?: CurrencyCode) => number | null): PriceGetter =>
+  (product) =>
+    convert(getLowestPrice(product), product.currency) ?? NaN;
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export const parseCatalogQuery = (params: URLSearchParams): CatalogQuery => {
+  const sort = params.get("sort");
+  return {
+    search: params.get("q") ?? "",
+    categories: params.getAll("category"),
+    minPrice: parseNumber(params.get("minPrice")),
+    maxPrice: parseNumber(params.get("maxPrice")),
+    inStock: params.get("inStock") === "1",
+    sort: CATALOG_SORTS.some((option) => option.value === sort)
+      ? (sort as CatalogSort)
+      : DEFAULT_SORT,
+    page: Math.max(1, Math.floor(parseNumber(params.get("page")) ?? 1)),
+  };
+};
+
+// Only non-default values end up in the URL so shared links stay short
+export const toCatalogSearchParams = (query: CatalogQuery) => {
+  const params = new URLSearchParams();
+  if (query.search) params.set("q", query.search);
+  query.categories.forEach((category) => params.append("category", category));
+  if (query.minPrice !== undefined) params.set("minPrice", String(query.minPrice));
+  if (query.maxPrice !== undefined) params.set("maxPrice", String(query.maxPrice));
+  if (query.inStock) params.set("inStock", "1");
+  if (query.sort !== DEFAULT_SORT) params.set("sort", query.sort);
+  if (query.page > 1) params.set("page", String(query.page));
+  return params;
+};
+
+// Products without a comparable price go last in either direction
+const byPrice = (getPrice: PriceGetter, direction: 1 | -1) => (a: Product, b: Product) => {
+  const priceA = getPrice(a);
+  const priceB = getPrice(b);
+  if (!Number.isFinite(priceA) || !Number.isFinite(priceB)) {
+    return Number(!Number.isFinite(priceA)) - Number(!Number.isFinite(priceB));
+  }
+  return direction * (priceA - priceB);
+};
+
+const getComparator = (
+  sort: CatalogSort,
+  getPrice: PriceGetter
+): ((a: Product, b: Product) => number) => {
+  switch (sort) {
+    case "price-asc":
+      return byPrice(getPrice, 1);
+    case "price-desc":
+      return byPrice(getPrice, -1);
+    case "name":
+      return (a, b) => a.name.localeCompare(b.name);
+    default:
+      return (a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? "");
+  }
+};
+
+const getCategoryFilter = (slugs: string[], categories: Category[]) => {
+  const ids = new Set<string>();
+  slugs.forEach((slug) => {
+    const category = findCategoryBySlug(categories, slug);
+    if (category) getDescendantIds(categories, category.id).forEach((id) => ids.add(id));
+  });
+  return ids;
+};
+
+export const filterProducts = (
+  products: Product[],
+  query: CatalogQuery,
+  categories: Category[],
+  getPrice: PriceGetter
+) => {
+  const search = query.search.trim().toLowerCase();
+  const categoryIds = getCategoryFilter(query.categories, categories);
+
+  return products
+    .filter((product) => {
+      const price = getPrice(product);
+      if (query.categories.length && !categoryIds.has(product.categoryId ?? "")) {
+        return false;
+      }
+      if (query.minPrice !== undefined || query.maxPrice !== undefined) {
+        if (!Number.isFinite(price)) return false;
+        if (query.minPrice !== undefined && price < query.minPrice) return false;
+        if (query.maxPrice !== undefined && price > query.maxPrice) return false;
+      }
+      if (query.inStock && product.stock <= 0) return false;
+      if (
+        search &&
+        !product.name.toLowerCase().includes(search) &&
+        !product.description.toLowerCase().includes(search)
+      ) {
+        return false;
+      }
+      return true;
+    })
+    .sort(getComparator(query.sort, getPrice));
+};
+
+export const paginate = <T>(items: T[], page: number, pageSize: number) => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+  return {
+    items: items.slice((currentPage - 1) * pageSize, currentPage * pageSize),
+    page: currentPage,
+    pageCount,
+  };
+};
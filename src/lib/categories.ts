@@ -0,0 +1,79 @@
+import { Category } from "@/api/categories";
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+  // 0 for top-level categories
+  depth: number;
+}
+
+const compareCategories = (a: Category, b: Category) =>
+  a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+
+// Categories whose parent is missing are shown at the top level rather than lost
+export const buildCategoryTree = (categories: Category[]): CategoryNode[] => {
+  const ids = new Set(categories.map((category) => category.id));
+  const build = (parentId: string | undefined, depth: number): CategoryNode[] =>
+    categories
+      .filter((category) =>
+        parentId === undefined
+          ? !category.parentId || !ids.has(category.parentId)
+          : category.parentId === parentId
+      )
+      .sort(compareCategories)
+      .map((category) => ({ ...category, depth, children: build(category.id, depth + 1) }));
+
+  return build(undefined, 0);
+};
+
+// Depth-first, in display order, for selects and indented lists
+export const flattenCategoryTree = (nodes: CategoryNode[]): CategoryNode[] =>
+  nodes.flatMap((node) => [node, ...flattenCategoryTree(node.children)]);
+
+export const findCategoryBySlug = (categories: Category[], slug: string) =>
+  categories.find((category) => category.slug === slug);
+
+// The category and every category below it
+export const getDescendantIds = (categories: Category[], id: string) => {
+  const ids = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    categories.forEach((category) => {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+// From the top-level category down to this one, for breadcrumbs
+export const getCategoryPath = (categories: Category[], id: string) => {
+  const path: Category[] = [];
+  let current = categories.find((category) => category.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = categories.find((category) => category.id === current.parentId);
+  }
+  return path;
+};
+
+// "Clothing › Shirts"
+export const getCategoryLabel = (categories: Category[], id: string) =>
+  getCategoryPath(categories, id)
+    .map((category) => category.name)
+    .join(" › ");
+
+// A category can't be moved under itself or one of its own descendants
+export const canMoveCategory = (categories: Category[], id: string, parentId?: string) =>
+  !parentId || !getDescendantIds(categories, id).has(parentId);
+
+export const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import {
+  ContactDetails,
+  DELIVERY_METHODS,
+  DeliveryMethod,
+  PAYMENT_METHODS,
+  PaymentMethod,
+  ShippingAddress,
+} from "@/api/orders";
+
+export const DELIVERY_OPTIONS: { value: DeliveryMethod; label: string; description: string }[] = [
+  { value: "delivery", label: "Home delivery", description: "Shipped to your address" },
+  { value: "pickup", label: "Store pickup", description: "Collect your order from us, free of charge" },
+];
+
+export const CHECKOUT_STEPS = [
+  { id: "contact", title: "Contact" },
+  { id: "delivery", title: "Delivery" },
+  { id: "address", title: "Shipping address" },
+  { id: "payment", title: "Payment" },
+  { id: "review", title: "Review" },
+] as const;
+
+export type CheckoutStep = (typeof CHECKOUT_STEPS)[number]["id"];
+
+const ADDRESS_FIELDS = ["line1", "city", "country"] as const;
+
+export const checkoutSchema = z
+  .object({
+    fullName: z.string().trim().min(2, "Enter your full name"),
+    email: z.string().trim().email("Enter a valid email address"),
+    phone: z
+      .string()
+      .trim()
+      .regex(/^\+?[\d\s()-]{7,20}$/, "Enter a valid phone number, including the country code"),
+    deliveryMethod: z.enum(DELIVERY_METHODS),
+    line1: z.string().trim(),
+    line2: z.string().trim(),
+    city: z.string().trim(),
+    region: z.string().trim(),
+    postalCode: z.string().trim(),
+    country: z.string().trim(),
+    paymentMethod: z.enum(PAYMENT_METHODS),
+    cardNumber: z.string().trim(),
+    cardExpiry: z.string().trim(),
+    cardCvc: z.string().trim(),
+  })
+  .superRefine((values, ctx) => {
+    const require = (field: keyof typeof values, valid: boolean, message = "Required") => {
+      if (!valid) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+    };
+
+    // An address is only needed when we ship the order
+    if (values.deliveryMethod === "delivery") {
+      ADDRESS_FIELDS.forEach((field) => require(field, Boolean(values[field])));
+    }
+
+    if (values.paymentMethod === "card") {
+      const cardNumber = values.cardNumber.replace(/\s/g, "");
+      require("cardNumber", /^\d{12,19}$/.test(cardNumber), "Enter a valid card number");
+      require("cardExpiry", /^(0[1-9]|1[0-2])\/\d{2}$/.test(values.cardExpiry), "Use MM/YY");
+      require("cardCvc", /^\d{3,4}$/.test(values.cardCvc), "Enter the 3 or 4 digit code");
+    }
+  });
+
+export type CheckoutFormValues = z.infer<typeof checkoutSchema>;
+
+// Fields validated before leaving each step
+export const CHECKOUT_STEP_FIELDS: Record<CheckoutStep, (keyof CheckoutFormValues)[]> = {
+  contact: ["fullName", "email", "phone"],
+  delivery: ["deliveryMethod"],
+  address: ["line1", "line2", "city", "region", "postalCode", "country"],
+  payment: ["paymentMethod", "cardNumber", "cardExpiry", "cardCvc"],
+  review: [],
+};
+
+export interface CheckoutDetails {
+  contact: ContactDetails;
+  shippingAddress?: ShippingAddress;
+  deliveryMethod: DeliveryMethod;
+  paymentMethod: PaymentMethod;
+}
+
+export const toCheckoutDetails = (values: CheckoutFormValues): CheckoutDetails => ({
+  contact: { fullName: values.fullName, email: values.email, phone: values.phone },
+  shippingAddress:
+    values.deliveryMethod === "delivery"
+      ? {
+          line1: values.line1,
+          line2: values.line2 || undefined,
+          city: values.city,
+          region: values.region || undefined,
+          postalCode: values.postalCode || undefined,
+          country: values.country,
+        }
+      : undefined,
+  deliveryMethod: values.deliveryMethod,
+  paymentMethod: values.paymentMethod,
+});
@@ -0,0 +1,16 @@
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+// Settings store ISO 3166-1 alpha-2 codes, e.g. "AE"
+export const getCountryName = (code: string) => {
+  try {
+    return regionNames.of(code.toUpperCase()) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+// Addresses are typed by shoppers, so accept either the code or the English name
+export const matchesCountry = (code: string, country: string) => {
+  const value = country.trim().toLowerCase();
+  return value === code.toLowerCase() || value === getCountryName(code).toLowerCase();
+};
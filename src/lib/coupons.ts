@@ -0,0 +1,137 @@
+import { Coupon } from "@/api/coupons";
+import { CurrencyCode } from "@/lib/currency";
+import { formatMoney, roundMoney } from "@/lib/money";
+
+// Converts from the given currency (the store's by default) into the one the
+// cart is priced in
+type Convert = (amount: number | string, from?: CurrencyCode) => number | null;
+
+export interface DiscountableLine {
+  // Cart line id; differs from the product id for variants
+  lineId: string;
+  productId: string;
+  categoryId: string | null;
+  // Unit price in the cart currency
+  price: number;
+  quantity: number;
+}
+
+export interface CouponDiscount {
+  coupon: Coupon;
+  // Discount per cart line id, for the whole line
+  lineDiscounts: Record<string, number>;
+  itemsDiscount: number;
+  shippingDiscount: number;
+  total: number;
+}
+
+export type CouponEvaluation =
+  | { valid: true; discount: CouponDiscount }
+  | { valid: false; reason: string };
+
+// Fixed amounts are set, and shown, in the store currency
+export const describeCoupon = (coupon: Coupon, storeCurrency: CurrencyCode) => {
+  switch (coupon.type) {
+    case "percentage":
+      return `${coupon.value}% off`;
+    case "fixed":
+      return `${formatMoney(coupon.value, storeCurrency)} off`;
+    case "free_shipping":
+      return "Free shipping";
+  }
+};
+
+// Splits a fixed amount across lines in proportion to their totals; the last
+// line takes the rounding remainder so the parts add up exactly
+const splitAmount = (amount: number, lines: DiscountableLine[], currency: CurrencyCode) => {
+  const totals = lines.map((line) => line.price * line.quantity);
+  const sum = totals.reduce((total, lineTotal) => total + lineTotal, 0);
+  let remaining = amount;
+
+  return lines.map((line, index) => {
+    const share =
+      index === lines.length - 1
+        ? remaining
+        : sum > 0
+          ? roundMoney((amount * totals[index]) / sum, currency)
+          : 0;
+    remaining = roundMoney(remaining - share, currency);
+    return [line.lineId, share] as const;
+  });
+};
+
+export const evaluateCoupon = (
+  coupon: Coupon,
+  lines: DiscountableLine[],
+  shippingFee: number,
+  currency: CurrencyCode,
+  convert: Convert,
+  now = new Date()
+): CouponEvaluation => {
+  if (!coupon.active) {
+    return { valid: false, reason: "This code is no longer active." };
+  }
+  if (coupon.expiresAt && new Date(coupon.expiresAt) < now) {
+    return { valid: false, reason: "This code has expired." };
+  }
+  if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
+    return { valid: false, reason: "This code has reached its usage limit." };
+  }
+
+  const subtotal = lines.reduce((total, line) => total + line.price * line.quantity, 0);
+  const minSubtotal = coupon.minSubtotal ? convert(coupon.minSubtotal) : null;
+  if (minSubtotal !== null && subtotal < minSubtotal) {
+    return {
+      valid: false,
+      reason: `Spend ${formatMoney(minSubtotal, currency)} or more to use this code.`,
+    };
+  }
+
+  const eligible =
+    coupon.categoryIds.length > 0
+      ? lines.filter((line) => line.categoryId && coupon.categoryIds.includes(line.categoryId))
+      : lines;
+  if (eligible.length === 0) {
+    return { valid: false, reason: "This code doesn't apply to any items in your cart." };
+  }
+
+  const eligibleSubtotal = eligible.reduce(
+    (total, line) => total + line.price * line.quantity,
+    0
+  );
+  let lineDiscounts: Record<string, number> = {};
+  let shippingDiscount = 0;
+
+  if (coupon.type === "percentage") {
+    const rate = Math.min(coupon.value, 100) / 100;
+    lineDiscounts = Object.fromEntries(
+      eligible.map((line) => [
+        line.lineId,
+        roundMoney(line.price * line.quantity * rate, currency),
+      ])
+    );
+  } else if (coupon.type === "fixed") {
+    const amount = Math.min(convert(coupon.value) ?? 0, eligibleSubtotal);
+    lineDiscounts = Object.fromEntries(
+      splitAmount(roundMoney(amount, currency), eligible, currency)
+    );
+  } else {
+    shippingDiscount = shippingFee;
+  }
+
+  const itemsDiscount = roundMoney(
+    Object.values(lineDiscounts).reduce((total, amount) => total + amount, 0),
+    currency
+  );
+
+  return {
+    valid: true,
+    discount: {
+      coupon,
+      lineDiscounts,
+      itemsDiscount,
+      shippingDiscount,
+      total: roundMoney(itemsDiscount + shippingDiscount, currency),
+    },
+  };
+};
@@ -0,0 +1,13 @@
+export const CURRENCIES = [
+  { code: "USD", symbol: "$", name: "US Dollar" },
+  { code: "INR", symbol: "₹", name: "Indian Rupee" },
+  { code: "AED", symbol: "د.إ", name: "UAE Dirham" },
+  { code: "KWD", symbol: "د.ك", name: "Kuwaiti Dinar" },
+] as const;
+
+export type CurrencyCode = (typeof CURRENCIES)[number]["code"];
+
+export const CURRENCY_CODES = CURRENCIES.map((currency) => currency.code) as [
+  CurrencyCode,
+  ...CurrencyCode[],
+];
@@ -0,0 +1,112 @@
+import { ProductImage } from "@/api/products";
+
+export const MAX_PRODUCT_IMAGES = 8;
+
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+// Checked before optimization; large photos shrink well below this
+export const MAX_IMAGE_FILE_SIZE = 15 * 1024 * 1024;
+
+// Longest side after resizing, enough for zoomed product photos
+const MAX_IMAGE_DIMENSION = 2000;
+const WEBP_QUALITY = 0.82;
+
+export type ManagedImageStatus = "optimizing" | "uploading" | "uploaded" | "error";
+
+// An image in the product form, from the moment a file is picked until the
+// product is saved. Uploads happen straight away so each gets its own progress.
+export interface ManagedImage {
+  // Stable React key, also used to find the entry when an upload finishes
+  key: string;
+  // Set once the server has stored the file
+  id?: string;
+  // Object URL while the file is local, then the server URL
+  url: string;
+  altText: string;
+  isPrimary: boolean;
+  status: ManagedImageStatus;
+  // 0–100 while uploading
+  progress: number;
+  error?: string;
+}
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+// Returns why a file can't be used, or null when it's fine
+export const validateImageFile = (file: File) => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return `${file.name} isn't a JPEG, PNG, WebP or GIF image`;
+  }
+  if (file.size > MAX_IMAGE_FILE_SIZE) {
+    return `${file.name} is larger than ${formatMegabytes(MAX_IMAGE_FILE_SIZE)}`;
+  }
+  return null;
+};
+
+// Scales the image down and re-encodes it as WebP. GIFs are left alone so
+// animations survive, and the original is kept whenever it is already smaller.
+export const optimizeImage = async (file: File): Promise<File> => {
+  if (file.type === "image/gif" || typeof createImageBitmap === "undefined") return file;
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/webp", WEBP_QUALITY)
+  );
+  // Browsers that can't encode WebP hand back a PNG instead
+  if (!blob || blob.type !== "image/webp" || (scale === 1 && blob.size >= file.size)) {
+    return file;
+  }
+  return new File([blob], `${file.name.replace(/\.[^.]+$/, "")}.webp`, { type: "image/webp" });
+};
+
+// Exactly one image is primary; the first one unless another was chosen
+export const ensurePrimary = (images: ManagedImage[]) => {
+  const primaryKey = (images.find((image) => image.isPrimary) ?? images[0])?.key;
+  return images.map((image) => ({ ...image, isPrimary: image.key === primaryKey }));
+};
+
+export const fromProductImages = (images: ProductImage[]): ManagedImage[] =>
+  ensurePrimary(
+    images.map((image) => ({
+      key: image.id,
+      id: image.id,
+      url: image.url,
+      altText: image.altText ?? "",
+      isPrimary: Boolean(image.isPrimary),
+      status: "uploaded",
+      progress: 100,
+    }))
+  );
+
+const isImageUploadPending = (images: ManagedImage[]) =>
+  images.some((image) => image.status === "optimizing" || image.status === "uploading");
+
+// Why the product can't be saved with these images yet, or null
+export const getImagesProblem = (images: ManagedImage[]) => {
+  if (images.length === 0) return "Please upload at least one product image";
+  if (isImageUploadPending(images)) return "Wait for the images to finish uploading";
+  if (images.some((image) => image.status === "error")) {
+    return "Retry or remove the images that failed to upload";
+  }
+  return null;
+};
+
+// Order, alt text and primary flag of the stored images, sent with the
+// product. Images missing from the list are detached from the product.
+export const toImageManifest = (images: ManagedImage[]) =>
+  JSON.stringify(
+    images
+      .filter((image) => image.id)
+      .map((image) => ({
+        id: image.id,
+        altText: image.altText.trim() || undefined,
+        isPrimary: image.isPrimary,
+      }))
+  );
@@ -0,0 +1,37 @@
+import { StockReason } from "@/api/inventory";
+import { LOW_STOCK_THRESHOLD, Product, StockFilter } from "@/api/products";
+
+export const STOCK_REASON_LABELS: Record<StockReason, string> = {
+  received: "Received",
+  sold: "Sold",
+  damaged: "Damaged",
+  correction: "Correction",
+};
+
+// Which way each reason moves stock; corrections can go either way
+export const STOCK_REASON_DIRECTIONS: Record<StockReason, 1 | -1 | 0> = {
+  received: 1,
+  sold: -1,
+  damaged: -1,
+  correction: 0,
+};
+
+export type StockLevel = StockFilter;
+
+export const getLowStockThreshold = (product: Pick<Product, "lowStockThreshold">) =>
+  product.lowStockThreshold ?? LOW_STOCK_THRESHOLD;
+
+export const getStockLevel = (
+  stock: number,
+  threshold = LOW_STOCK_THRESHOLD
+): StockLevel =>
+  stock <= 0 ? "out_of_stock" : stock <= threshold ? "low_stock" : "in_stock";
+
+export const getProductStockLevel = (product: Product) =>
+  getStockLevel(product.stock, getLowStockThreshold(product));
+
+// Products that need restocking, out of stock first
+export const getLowStockProducts = (products: Product[]) =>
+  products
+    .filter((product) => getProductStockLevel(product) !== "in_stock")
+    .sort((a, b) => a.stock - b.stock);
@@ -0,0 +1,47 @@
+import { CurrencyCode } from "@/lib/currency";
+
+// Units of each currency per one unit of the store's default currency
+export type ExchangeRates = Partial<Record<CurrencyCode, number>>;
+
+const formatters = new Map<CurrencyCode, Intl.NumberFormat>();
+
+const getFormatter = (currency: CurrencyCode) => {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, { style: "currency", currency });
+    formatters.set(currency, formatter);
+  }
+  return formatter;
+};
+
+// Minor units per currency as defined by ISO 4217 (e.g. 3 for KWD)
+export const getCurrencyDecimals = (currency: CurrencyCode) =>
+  getFormatter(currency).resolvedOptions().maximumFractionDigits;
+
+export const toAmount = (price: number | string) =>
+  typeof price === "string" ? parseFloat(price) || 0 : price;
+
+export const roundMoney = (amount: number, currency: CurrencyCode) => {
+  const factor = 10 ** getCurrencyDecimals(currency);
+  return Math.round(amount * factor) / factor;
+};
+
+export const formatMoney = (amount: number | string, currency: CurrencyCode) =>
+  getFormatter(currency).format(toAmount(amount));
+
+// Returns null when either currency has no configured rate
+export const convertMoney = (
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  baseCurrency: CurrencyCode,
+  rates: ExchangeRates
+): number | null => {
+  if (from === to) return amount;
+
+  const fromRate = from === baseCurrency ? 1 : rates[from];
+  const toRate = to === baseCurrency ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+
+  return roundMoney((amount / fromRate) * toRate, to);
+};
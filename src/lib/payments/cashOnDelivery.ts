@@ -0,0 +1,19 @@
+import { PaymentProvider } from "./types";
+
+// Nothing is charged online; the order stays pending until the courier collects
+export const cashOnDeliveryProvider: PaymentProvider = {
+  id: "cod",
+  label: "Cash on delivery",
+  description: "Pay in cash when your order arrives",
+  createIntent: async (order) => ({
+    id: `cod_${order.id}`,
+    provider: "cod",
+    orderId: order.id,
+    amount: order.total,
+    currency: order.currency,
+    status: "pending",
+  }),
+  confirm: async (intent) => intent,
+  handleRedirect: async () => null,
+  refund: async (intent) => ({ ...intent, status: "refunded" }),
+};
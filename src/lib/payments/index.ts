@@ -0,0 +1,47 @@
+import { Order, PaymentMethod, PaymentStatus } from "@/api/orders";
+import { StoreSettings } from "@/api/settings";
+import { config } from "@/config";
+import { cashOnDeliveryProvider } from "./cashOnDelivery";
+import { mockCardProvider } from "./mockCard";
+import { PaymentIntent, PaymentProvider } from "./types";
+import { createWhatsAppProvider } from "./whatsapp";
+
+export type { CardDetails, PaymentDetails, PaymentIntent, PaymentProvider } from "./types";
+export { MOCK_CARDS, MOCK_CARD_CALLBACK_PATH } from "./mockCard";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cod: "Cash on delivery",
+  card: "Card",
+  whatsapp: "WhatsApp",
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: "Awaiting payment",
+  requires_action: "Awaiting authentication",
+  succeeded: "Paid",
+  failed: "Failed",
+  refunded: "Refunded",
+};
+
+// Providers offered at checkout, in display order
+export const getPaymentProviders = (settings: StoreSettings): PaymentProvider[] => [
+  cashOnDeliveryProvider,
+  ...(config.enableMockPayments ? [mockCardProvider] : []),
+  ...(settings.whatsappNumber ? [createWhatsAppProvider(settings)] : []),
+];
+
+export const getPaymentProvider = (method: PaymentMethod, settings: StoreSettings) =>
+  getPaymentProviders(settings).find((provider) => provider.id === method);
+
+// Rebuilds the intent recorded on an order, e.g. to refund it later
+export const intentFromOrder = (order: Order): PaymentIntent | null =>
+  order.paymentMethod && order.paymentReference
+    ? {
+        id: order.paymentReference,
+        provider: order.paymentMethod,
+        orderId: order.id,
+        amount: order.total,
+        currency: order.currency,
+        status: order.paymentStatus ?? "pending",
+      }
+    : null;
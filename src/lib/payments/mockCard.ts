@@ -0,0 +1,74 @@
+import { CURRENCY_CODES, CurrencyCode } from "@/lib/currency";
+import { PaymentProvider } from "./types";
+
+// The outcome depends only on the card number, so flows are reproducible
+export const MOCK_CARDS = {
+  success: "4242424242424242",
+  declined: "4000000000000002",
+  requiresAction: "4000000000003220",
+} as const;
+
+export const MOCK_CARD_CALLBACK_PATH = "/checkout/payment-callback";
+
+const normalizeCardNumber = (value: string) => value.replace(/\D/g, "");
+
+const isCurrencyCode = (value: string | null): value is CurrencyCode =>
+  CURRENCY_CODES.some((code) => code === value);
+
+export const mockCardProvider: PaymentProvider = {
+  id: "card",
+  label: "Card (test mode)",
+  description: "Simulated card payments for development; no money is moved",
+  createIntent: async (order) => ({
+    id: `mock_${order.id}`,
+    provider: "card",
+    orderId: order.id,
+    amount: order.total,
+    currency: order.currency,
+    status: "pending",
+  }),
+  confirm: async (intent, details) => {
+    const number = normalizeCardNumber(details?.card?.number ?? "");
+
+    if (number === MOCK_CARDS.requiresAction) {
+      // The redirect carries the whole intent, as a real provider would keep it
+      const params = new URLSearchParams({
+        provider: "card",
+        intent: intent.id,
+        order: intent.orderId,
+        amount: intent.amount.toString(),
+        currency: intent.currency,
+        result: "succeeded",
+      });
+      return {
+        ...intent,
+        status: "requires_action",
+        redirectUrl: `${MOCK_CARD_CALLBACK_PATH}?${params}`,
+      };
+    }
+    if (number === MOCK_CARDS.success) {
+      return { ...intent, status: "succeeded" };
+    }
+    return { ...intent, status: "failed", failureReason: "Your card was declined." };
+  },
+  handleRedirect: async (params) => {
+    const id = params.get("intent");
+    const orderId = params.get("order");
+    const amount = Number(params.get("amount"));
+    const currency = params.get("currency");
+    if (params.get("provider") !== "card" || !id || !orderId) return null;
+    if (!Number.isFinite(amount) || !isCurrencyCode(currency)) return null;
+
+    const succeeded = params.get("result") === "succeeded";
+    return {
+      id,
+      provider: "card",
+      orderId,
+      amount,
+      currency,
+      status: succeeded ? "succeeded" : "failed",
+      failureReason: succeeded ? undefined : "Card authentication failed.",
+    };
+  },
+  refund: async (intent) => ({ ...intent, status: "refunded" }),
+};
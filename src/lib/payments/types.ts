@@ -0,0 +1,40 @@
+import { Order, PaymentMethod, PaymentStatus } from "@/api/orders";
+import { CurrencyCode } from "@/lib/currency";
+
+export interface PaymentIntent {
+  // Provider-side reference, stored on the order as paymentReference
+  id: string;
+  provider: PaymentMethod;
+  orderId: string;
+  amount: number;
+  currency: CurrencyCode;
+  status: PaymentStatus;
+  // Where to send the shopper when status is "requires_action"
+  redirectUrl?: string;
+  failureReason?: string;
+}
+
+export interface CardDetails {
+  number: string;
+  expiry: string;
+  cvc: string;
+}
+
+export interface PaymentDetails {
+  card?: CardDetails;
+}
+
+export interface PaymentProvider {
+  id: PaymentMethod;
+  label: string;
+  description: string;
+  // Shows redirectUrl in a new tab rather than leaving the store. The tab is
+  // opened on the shopper's click so popup blockers let it through.
+  opensInNewTab?: boolean;
+  createIntent: (order: Order) => Promise<PaymentIntent>;
+  // Declines resolve with status "failed" rather than rejecting
+  confirm: (intent: PaymentIntent, details?: PaymentDetails) => Promise<PaymentIntent>;
+  // Completes an intent when the shopper comes back from redirectUrl
+  handleRedirect: (params: URLSearchParams) => Promise<PaymentIntent | null>;
+  refund: (intent: PaymentIntent) => Promise<PaymentIntent>;
+}
@@ -0,0 +1,23 @@
+import { StoreSettings } from "@/api/settings";
+import { getOrderWhatsAppUrl } from "@/lib/whatsapp";
+import { PaymentProvider } from "./types";
+
+// Payment is arranged with the store over chat, so the intent stays pending
+export const createWhatsAppProvider = (settings: StoreSettings): PaymentProvider => ({
+  id: "whatsapp",
+  label: "Arrange via WhatsApp",
+  description: "Send your order to us on WhatsApp and agree on payment there",
+  opensInNewTab: true,
+  createIntent: async (order) => ({
+    id: `whatsapp_${order.id}`,
+    provider: "whatsapp",
+    orderId: order.id,
+    amount: order.total,
+    currency: order.currency,
+    status: "pending",
+    redirectUrl: getOrderWhatsAppUrl(order, settings),
+  }),
+  confirm: async (intent) => intent,
+  handleRedirect: async () => null,
+  refund: async (intent) => ({ ...intent, status: "refunded" }),
+});
@@ -0,0 +1,201 @@
+import { Coupon } from "@/api/coupons";
+import { DeliveryMethod } from "@/api/orders";
+import { Product } from "@/api/products";
+import { ShippingZone, StoreSettings } from "@/api/settings";
+import { CouponDiscount, DiscountableLine, evaluateCoupon } from "@/lib/coupons";
+import { matchesCountry } from "@/lib/countries";
+import { CurrencyCode } from "@/lib/currency";
+import { roundMoney } from "@/lib/money";
+import { getLineId, getVariant, getVariantPrice } from "@/lib/variants";
+
+// The order is priced as: subtotal → shipping → coupon → tax → total. Every
+// step is a plain function of its inputs so it can be checked in isolation.
+
+// Converts from the given currency (the store's by default) into the one the
+// order is priced in
+type Convert = (amount: number | string, from?: CurrencyCode) => number | null;
+
+export interface PricingLine extends DiscountableLine {
+  // Kilograms per unit
+  weight?: number;
+}
+
+export interface Destination {
+  country?: string;
+  region?: string;
+}
+
+export interface ShippingQuote {
+  amount: number;
+  // Zone the rate came from; undefined for the store's default rate
+  zone?: string;
+  freeOverThreshold: boolean;
+}
+
+export interface PriceBreakdown {
+  subtotal: number;
+  shipping: ShippingQuote;
+  discount: CouponDiscount | null;
+  // Why the applied coupon was not used, if it wasn't
+  couponError?: string;
+  tax: number;
+  // Percentage applied
+  taxRate: number;
+  // Whether tax is already part of the prices rather than added on top
+  taxInclusive: boolean;
+  total: number;
+}
+
+export interface PricingInput {
+  lines: PricingLine[];
+  deliveryMethod: DeliveryMethod;
+  destination?: Destination;
+  coupon?: Coupon | null;
+  settings: StoreSettings;
+  currency: CurrencyCode;
+  convert: Convert;
+}
+
+// Lines that can't be priced in the order currency are left out; checkout is
+// blocked for them anyway
+export const toPricingLines = (
+  items: { product: Product; variantId?: string; quantity: number }[],
+  convert: Convert
+): PricingLine[] =>
+  items.flatMap(({ product, variantId, quantity }) => {
+    const variant = getVariant(product, variantId);
+    const price = convert(getVariantPrice(product, variant), product.currency);
+    return price === null
+      ? []
+      : [
+          {
+            lineId: getLineId(product.id, variantId),
+            productId: product.id,
+            categoryId: product.categoryId ?? null,
+            price,
+            quantity,
+            weight: product.weight,
+          },
+        ];
+  });
+
+export const calculateSubtotal = (lines: PricingLine[], currency: CurrencyCode) =>
+  roundMoney(
+    lines.reduce((total, line) => total + line.price * line.quantity, 0),
+    currency
+  );
+
+export const calculateWeight = (lines: PricingLine[]) =>
+  lines.reduce((total, line) => total + (line.weight ?? 0) * line.quantity, 0);
+
+// The first zone listing the country wins, so order zones from most specific
+export const findShippingZone = (zones: ShippingZone[], country?: string) =>
+  country
+    ? zones.find((zone) => zone.countries.some((code) => matchesCountry(code, country)))
+    : undefined;
+
+export const calculateShipping = (
+  lines: PricingLine[],
+  deliveryMethod: DeliveryMethod,
+  destination: Destination | undefined,
+  settings: StoreSettings,
+  currency: CurrencyCode,
+  convert: Convert
+): ShippingQuote => {
+  if (deliveryMethod === "pickup") {
+    return { amount: 0, freeOverThreshold: false };
+  }
+
+  const zone = findShippingZone(settings.shippingZones, destination?.country);
+  const rule: Omit<ShippingZone, "name" | "countries"> = zone ?? {
+    rateType: "flat",
+    fee: settings.shippingFee,
+    perKg: 0,
+    freeOver: settings.freeShippingOver,
+  };
+
+  const freeOver = rule.freeOver ? convert(rule.freeOver) : null;
+  if (freeOver !== null && calculateSubtotal(lines, currency) >= freeOver) {
+    return { amount: 0, zone: zone?.name, freeOverThreshold: true };
+  }
+
+  const fee =
+    rule.rateType === "weight" ? rule.fee + rule.perKg * calculateWeight(lines) : rule.fee;
+  // Settings amounts are in the store currency, which always has a rate
+  return {
+    amount: roundMoney(convert(fee) ?? fee, currency),
+    zone: zone?.name,
+    freeOverThreshold: false,
+  };
+};
+
+// A rule for the address region beats one for the whole country, which beats
+// the store-wide rate
+export const findTaxRate = (settings: StoreSettings, destination?: Destination) => {
+  const country = destination?.country;
+  if (!country) return settings.taxRate;
+
+  const region = destination.region?.trim().toLowerCase();
+  const countryRules = settings.taxRules.filter((rule) => matchesCountry(rule.country, country));
+  const rule =
+    (region && countryRules.find((rule) => rule.region?.trim().toLowerCase() === region)) ||
+    countryRules.find((rule) => !rule.region);
+  return rule ? rule.rate : settings.taxRate;
+};
+
+export const calculateTax = (
+  amount: number,
+  rate: number,
+  inclusive: boolean,
+  currency: CurrencyCode
+) => {
+  if (rate <= 0 || amount <= 0) return 0;
+  // Inclusive prices already contain the tax, so extract it rather than add it
+  const tax = inclusive ? amount - amount / (1 + rate / 100) : (amount * rate) / 100;
+  return roundMoney(tax, currency);
+};
+
+export const priceOrder = ({
+  lines,
+  deliveryMethod,
+  destination,
+  coupon,
+  settings,
+  currency,
+  convert,
+}: PricingInput): PriceBreakdown => {
+  const subtotal = calculateSubtotal(lines, currency);
+  const shipping = calculateShipping(
+    lines,
+    deliveryMethod,
+    destination,
+    settings,
+    currency,
+    convert
+  );
+
+  const evaluation = coupon
+    ? evaluateCoupon(coupon, lines, shipping.amount, currency, convert)
+    : null;
+  const discount = evaluation?.valid ? evaluation.discount : null;
+
+  // Shipping is not taxed; discounts reduce the taxable amount
+  const taxable = subtotal - (discount?.itemsDiscount ?? 0);
+  const taxRate = findTaxRate(settings, destination);
+  const taxInclusive = settings.pricesIncludeTax;
+  const tax = calculateTax(taxable, taxRate, taxInclusive, currency);
+
+  return {
+    subtotal,
+    shipping,
+    discount,
+    couponError: evaluation?.valid === false ? evaluation.reason : undefined,
+    tax,
+    taxRate,
+    taxInclusive,
+    total: roundMoney(
+      taxable + shipping.amount - (discount?.shippingDiscount ?? 0) + (taxInclusive ? 0 : tax),
+      currency
+    ),
+  };
+};
@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { Product, ProductOption, ProductVariant } from "@/api/products";
+import { CURRENCY_CODES, CurrencyCode } from "@/lib/currency";
+import { ManagedImage, fromProductImages, getImagesProblem, toImageManifest } from "@/lib/images";
+import { getCurrencyDecimals } from "@/lib/money";
+import { getTotalStock, isOptionComplete } from "@/lib/variants";
+
+const isWholeNumber = (value: string) => /^\d+$/.test(value);
+
+const countDecimals = (value: string) => value.split(".")[1]?.length ?? 0;
+
+// Numeric inputs stay strings so they can be left blank. Stock is only
+// entered when a product is created; after that it moves through the ledger.
+export const getProductFormSchema = (isNew: boolean) =>
+  z
+    .object({
+      name: z.string().trim().min(1, "Name is required").max(200, "Keep names under 200 characters"),
+      description: z.string().trim().min(1, "Description is required"),
+      price: z
+        .string()
+        .trim()
+        .refine((value) => value !== "" && Number(value) >= 0, "Enter a price of zero or more"),
+      currency: z.enum(CURRENCY_CODES),
+      categoryId: z.string().min(1, "Choose a category"),
+      stock: z.string().trim(),
+      weight: z
+        .string()
+        .trim()
+        .refine((value) => value === "" || Number(value) >= 0, "Enter a weight of zero or more"),
+      lowStockThreshold: z
+        .string()
+        .trim()
+        .refine((value) => value === "" || isWholeNumber(value), "Enter a whole number"),
+      options: z.array(z.custom<ProductOption>()),
+      variants: z.array(z.custom<ProductVariant>()),
+      images: z.array(z.custom<ManagedImage>()),
+    })
+    .superRefine((values, ctx) => {
+      const decimals = getCurrencyDecimals(values.currency);
+      if (countDecimals(values.price) > decimals) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["price"],
+          message:
+            decimals === 0
+              ? `${values.currency} prices are whole numbers`
+              : `${values.currency} prices have at most ${decimals} decimals`,
+        });
+      }
+      if (isNew && values.variants.length === 0 && !isWholeNumber(values.stock)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["stock"],
+          message: "Enter the number of units in stock",
+        });
+      }
+      if (!values.options.every(isOptionComplete)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["options"],
+          message: "Give every option a name and at least one value, or remove it",
+        });
+      }
+      const imagesProblem = getImagesProblem(values.images);
+      if (imagesProblem) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["images"], message: imagesProblem });
+      }
+    });
+
+export type ProductFormValues = z.infer<ReturnType<typeof getProductFormSchema>>;
+
+export type ProductFormField = keyof ProductFormValues;
+
+export const toProductFormValues = (
+  product: Product | undefined,
+  defaultCurrency: CurrencyCode
+): ProductFormValues => ({
+  name: product?.name ?? "",
+  description: product?.description ?? "",
+  price: product?.price?.toString() ?? "",
+  currency: product?.currency ?? defaultCurrency,
+  categoryId: product?.categoryId ?? "",
+  stock: product?.stock?.toString() ?? "",
+  weight: product?.weight?.toString() ?? "",
+  lowStockThreshold: product?.lowStockThreshold?.toString() ?? "",
+  options: product?.options ?? [],
+  variants: product?.variants ?? [],
+  images: product ? fromProductImages(product.images) : [],
+});
+
+export const buildProductFormData = (values: ProductFormValues, isNew: boolean) => {
+  const formData = new FormData();
+  formData.append("name", values.name.trim());
+  formData.append("description", values.description.trim());
+  formData.append("price", values.price);
+  formData.append("currency", values.currency);
+  formData.append("categoryId", values.categoryId);
+  // Opening balance for the stock ledger. Products sold in variants hold the
+  // sum of their variants' stock; the server takes the stock of "new-"
+  // variants added later as their opening balance.
+  if (isNew) {
+    formData.append(
+      "stock",
+      values.variants.length > 0 ? getTotalStock(values.variants).toString() : values.stock
+    );
+  }
+  formData.append("options", JSON.stringify(values.options));
+  formData.append("variants", JSON.stringify(values.variants));
+  if (values.weight) {
+    formData.append("weight", values.weight);
+  }
+  // Empty falls back to the store-wide threshold
+  formData.append("lowStockThreshold", values.lowStockThreshold);
+  // Images are already uploaded; images missing from the manifest are removed
+  formData.append("images", toImageManifest(values.images));
+  return formData;
+};
+
+// Server fields shown on a different form field. Variant errors go under the
+// variant editor, which is the options field.
+const SERVER_FIELD_ALIASES: Record<string, ProductFormField> = {
+  category: "categoryId",
+  imageUrls: "images",
+  variants: "options",
+};
+
+// Splits ApiError.fieldErrors into errors for form fields and messages for
+// fields the form doesn't show
+export const mapServerFieldErrors = (fieldErrors: Record<string, string>) => {
+  const fields: Partial<Record<ProductFormField, string>> = {};
+  const other: string[] = [];
+  const known = Object.keys(toProductFormValues(undefined, "USD"));
+
+  Object.entries(fieldErrors).forEach(([field, message]) => {
+    // Nested paths such as "variants.0.sku" land on the top-level field
+    const topLevel = field.split(".")[0];
+    const name = SERVER_FIELD_ALIASES[topLevel] ?? topLevel;
+    if (known.includes(name)) {
+      fields[name as ProductFormField] ??= message;
+    } else {
+      other.push(message);
+    }
+  });
+  return { fields, other };
+};
+
+const DRAFT_KEY_PREFIX = "productDraft:";
+
+export interface ProductDraft {
+  savedAt: string;
+  values: ProductFormValues;
+}
+
+// One draft per product, plus one for the product being added
+export const getProductDraftKey = (productId?: string) =>
+  `${DRAFT_KEY_PREFIX}${productId ?? "new"}`;
+
+export const loadProductDraft = (key: string): ProductDraft | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? (JSON.parse(saved) as ProductDraft) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Images still on their way up only exist in this tab, so they're left out
+export const saveProductDraft = (key: string, values: ProductFormValues) => {
+  const draft: ProductDraft = {
+    savedAt: new Date().toISOString(),
+    values: { ...values, images: values.images.filter((image) => image.status === "uploaded") },
+  };
+  localStorage.setItem(key, JSON.stringify(draft));
+};
+
+export const clearProductDraft = (key: string) => localStorage.removeItem(key);
@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { Category } from "@/api/categories";
+import { Product } from "@/api/products";
+import { CURRENCY_CODES, CurrencyCode } from "@/lib/currency";
+import { CsvRow, toCsv } from "@/lib/csv";
+import { toAmount } from "@/lib/money";
+
+export const PRODUCT_IMPORT_FIELDS = [
+  { key: "name", label: "Name", required: true, aliases: ["title", "product", "product name"] },
+  { key: "description", label: "Description", required: true, aliases: ["details", "body"] },
+  { key: "price", label: "Price", required: true, aliases: ["amount", "unit price"] },
+  { key: "currency", label: "Currency", required: false, aliases: ["currency code"] },
+  { key: "category", label: "Category", required: true, aliases: ["type", "department"] },
+  { key: "stock", label: "Stock", required: true, aliases: ["quantity", "qty", "inventory"] },
+  { key: "weight", label: "Weight (kg)", required: false, aliases: ["weight kg"] },
+  { key: "imageUrls", label: "Image URLs", required: false, aliases: ["images", "image", "image url"] },
+] as const;
+
+export type ProductImportField = (typeof PRODUCT_IMPORT_FIELDS)[number]["key"];
+
+// Field to the index of the CSV column it is read from
+export type ColumnMapping = Partial<Record<ProductImportField, number>>;
+
+// Several image URLs share one cell, separated by "|"
+const IMAGE_URL_SEPARATOR = "|";
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Matches headers against field names, labels and common aliases
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+
+  PRODUCT_IMPORT_FIELDS.forEach((field) => {
+    const names = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+    const index = normalized.findIndex((header) => names.includes(header));
+    if (index !== -1) mapping[field.key] = index;
+  });
+  return mapping;
+};
+
+export const getMissingFields = (mapping: ColumnMapping) =>
+  PRODUCT_IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === undefined);
+
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" ? undefined : value), schema.optional());
+
+// Categories are matched by name or slug, case-insensitively
+export const createProductImportSchema = (categories: Category[]) =>
+  z.object({
+    name: z.string().trim().min(1, "Name is required"),
+    description: z.string().trim().min(1, "Description is required"),
+    // Blank cells are missing values, not zero
+    price: z
+      .string()
+      .trim()
+      .min(1, "Price is required")
+      .pipe(
+        z.coerce
+          .number({ invalid_type_error: "Price must be a number" })
+          .nonnegative("Price can't be negative")
+      ),
+    currency: optional(
+      z
+        .string()
+        .trim()
+        .toUpperCase()
+        .pipe(z.enum(CURRENCY_CODES, { errorMap: () => ({ message: "Unknown currency" }) }))
+    ),
+    category: z
+      .string()
+      .trim()
+      .transform((value) =>
+        categories.find(
+          (category) =>
+            category.name.toLowerCase() === value.toLowerCase() ||
+            category.slug === value.toLowerCase()
+        )
+      )
+      .refine((value) => value !== undefined, {
+        message: "Category must match an existing category's name or slug",
+      }),
+    stock: z
+      .string()
+      .trim()
+      .min(1, "Stock is required")
+      .pipe(
+        z.coerce
+          .number({ invalid_type_error: "Stock must be a number" })
+          .int("Stock must be a whole number")
+          .nonnegative("Stock can't be negative")
+      ),
+    weight: optional(
+      z.coerce
+        .number({ invalid_type_error: "Weight must be a number" })
+        .nonnegative("Weight can't be negative")
+    ),
+    imageUrls: z
+      .string()
+      .optional()
+      .transform((value) =>
+        (value ?? "")
+          .split(IMAGE_URL_SEPARATOR)
+          .map((url) => url.trim())
+          .filter(Boolean)
+      )
+      .pipe(z.array(z.string().url("Image URLs must be full http(s) links")).max(8, "At most 8 images")),
+  });
+
+export type ProductImportRow = z.infer<ReturnType<typeof createProductImportSchema>>;
+
+export interface ImportRowResult {
+  // Line in the file the row starts on
+  line: number;
+  values?: ProductImportRow;
+  errors: string[];
+}
+
+export const validateImportRows = (
+  rows: CsvRow[],
+  mapping: ColumnMapping,
+  categories: Category[]
+): ImportRowResult[] => {
+  const schema = createProductImportSchema(categories);
+  return rows.map(({ line, cells }) => {
+    const raw = Object.fromEntries(
+      PRODUCT_IMPORT_FIELDS.map((field) => {
+        const column = mapping[field.key];
+        return [field.key, column === undefined ? undefined : cells[column]?.trim() ?? ""];
+      })
+    );
+    const parsed = schema.safeParse(raw);
+
+    return parsed.success
+      ? { line, values: parsed.data, errors: [] }
+      : { line, errors: parsed.error.issues.map((issue) => issue.message) };
+  });
+};
+
+// The server downloads imageUrls itself, as it does with uploaded files
+export const toProductFormData = (row: ProductImportRow, defaultCurrency: CurrencyCode) => {
+  const formData = new FormData();
+  formData.append("name", row.name);
+  formData.append("description", row.description);
+  formData.append("price", row.price.toString());
+  formData.append("currency", row.currency ?? defaultCurrency);
+  formData.append("categoryId", row.category.id);
+  formData.append("stock", row.stock.toString());
+  if (row.weight !== undefined) {
+    formData.append("weight", row.weight.toString());
+  }
+  formData.append("imageUrls", JSON.stringify(row.imageUrls));
+  return formData;
+};
+
+// Exports use the import headers so the file can be imported into another
+// store; imports always add new products
+export const productsToCsv = (products: Product[], defaultCurrency: CurrencyCode) =>
+  toCsv([
+    PRODUCT_IMPORT_FIELDS.map((field) => field.key),
+    ...products.map((product) => [
+      product.name,
+      product.description,
+      toAmount(product.price),
+      product.currency ?? defaultCurrency,
+      product.category,
+      product.stock,
+      product.weight,
+      product.images.map((image) => image.url).join(IMAGE_URL_SEPARATOR),
+    ]),
+  ]);
+
+export const productsToJson = (products: Product[]) => JSON.stringify(products, null, 2);
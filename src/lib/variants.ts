@@ -0,0 +1,102 @@
+import { Product, ProductOption, ProductVariant } from "@/api/products";
+
+// Option name to chosen value; may be partial while the shopper is choosing
+export type VariantSelection = Record<string, string>;
+
+export const hasVariants = (product: Product) => product.variants.length > 0;
+
+const matchesSelection = (variant: ProductVariant, selection: VariantSelection) =>
+  Object.entries(selection).every(([name, value]) => variant.options[name] === value);
+
+// Only resolves once every option has a value
+export const findVariant = (product: Product, selection: VariantSelection) =>
+  product.options.every((option) => selection[option.name])
+    ? product.variants.find((variant) => matchesSelection(variant, selection))
+    : undefined;
+
+// Cart lines, order lines and coupon discounts are keyed by this
+export const getLineId = (productId: string, variantId?: string) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+export const getVariant = (product: Product, variantId?: string) =>
+  variantId ? product.variants.find((variant) => variant.id === variantId) : undefined;
+
+// Whether picking this value still leaves an in-stock variant given the other choices
+export const isOptionValueAvailable = (
+  product: Product,
+  selection: VariantSelection,
+  optionName: string,
+  value: string
+) =>
+  product.variants.some(
+    (variant) =>
+      variant.stock > 0 && matchesSelection(variant, { ...selection, [optionName]: value })
+  );
+
+export const getVariantPrice = (product: Product, variant?: ProductVariant) =>
+  variant?.price ?? product.price;
+
+// What the cheapest variant costs, for listing, filtering and sorting products
+export const getLowestPrice = (product: Product) =>
+  hasVariants(product)
+    ? Math.min(...product.variants.map((variant) => Number(getVariantPrice(product, variant))))
+    : product.price;
+
+export const getVariantStock = (product: Product, variant?: ProductVariant) =>
+  variant ? variant.stock : product.stock;
+
+export const getVariantImage = (product: Product, variant?: ProductVariant) =>
+  (variant?.imageId && product.images.find((image) => image.id === variant.imageId)) ||
+  product.images.find((image) => image.isPrimary) ||
+  product.images[0];
+
+// "M / Red", in option order
+export const describeVariant = (product: Product, variant?: ProductVariant) =>
+  variant
+    ? product.options
+        .map((option) => variant.options[option.name])
+        .filter(Boolean)
+        .join(" / ")
+    : "";
+
+export const isOptionComplete = (option: ProductOption) =>
+  option.name.trim() !== "" && option.values.length > 0;
+
+const combinations = (options: ProductOption[]): VariantSelection[] =>
+  options.reduce<VariantSelection[]>(
+    (rows, option) =>
+      rows.flatMap((row) => option.values.map((value) => ({ ...row, [option.name]: value }))),
+    [{}]
+  );
+
+// One variant per combination of option values. Rows that survive an option
+// edit keep their SKU, price, stock and image.
+export const buildVariantMatrix = (
+  options: ProductOption[],
+  existing: ProductVariant[]
+): ProductVariant[] => {
+  const usable = options.filter(isOptionComplete);
+  if (usable.length === 0) return [];
+
+  return combinations(usable).map((selection) => {
+    const match = existing.find(
+      (variant) =>
+        Object.keys(variant.options).length === usable.length &&
+        matchesSelection(variant, selection)
+    );
+    // The server assigns real ids to "new-" variants when the product is saved
+    return (
+      match ?? {
+        id: `new-${usable.map((option) => selection[option.name]).join("-")}`,
+        options: selection,
+        stock: 0,
+      }
+    );
+  });
+};
+
+// Variants the server hasn't stored yet, see buildVariantMatrix
+export const isNewVariant = (variant: ProductVariant) => variant.id.startsWith("new-");
+
+export const getTotalStock = (variants: ProductVariant[]) =>
+  variants.reduce((total, variant) => total + variant.stock, 0);
@@ -0,0 +1,200 @@
+import { Order } from "@/api/orders";
+import { Product } from "@/api/products";
+import { StoreSettings, WhatsAppTemplates } from "@/api/settings";
+import { matchesCountry } from "@/lib/countries";
+import { CurrencyCode } from "@/lib/currency";
+import { formatMoney } from "@/lib/money";
+
+// wa.me only accepts the number as digits, without "+", spaces or dashes
+export const normalizePhoneNumber = (phoneNumber: string) => phoneNumber.replace(/\D/g, "");
+
+export const getWhatsAppUrl = (phoneNumber: string, message: string) =>
+  `https://wa.me/${normalizePhoneNumber(phoneNumber)}?text=${encodeURIComponent(message)}`;
+
+export const WHATSAPP_PLACEHOLDERS = {
+  storeName: "Store name",
+  orderNumber: "Order number",
+  orderLink: "Link to the order in the admin panel",
+  items: "One line per item, with quantity, price and product link",
+  subtotal: "Items total",
+  shipping: "Shipping fee",
+  discount: "Coupon discount and code",
+  tax: "Tax amount",
+  total: "Amount due",
+  currency: "Currency code, e.g. USD",
+  customerName: "Customer name",
+  customerEmail: "Customer email",
+  customerPhone: "Customer phone",
+  address: "Shipping address, or store pickup",
+} as const;
+
+export type WhatsAppPlaceholder = keyof typeof WHATSAPP_PLACEHOLDERS;
+
+export type WhatsAppMessageValues = Partial<Record<WhatsAppPlaceholder, string>>;
+
+export type WhatsAppTemplateName = keyof WhatsAppTemplates;
+
+interface MessageItem {
+  name: string;
+  quantity: number;
+  price: number;
+  productId?: string;
+  variantName?: string;
+}
+
+interface MessageCustomer {
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+// Links in messages must be absolute to be clickable in the chat
+const absoluteUrl = (path: string) => `${window.location.origin}${path}`;
+
+const formatItems = (items: MessageItem[], currency: CurrencyCode) =>
+  items
+    .map((item) => {
+      const name = item.variantName ? `${item.name} - ${item.variantName}` : item.name;
+      const line = `${item.quantity} x ${name} (${formatMoney(item.price, currency)} each)`;
+      return item.productId ? `${line} ${absoluteUrl(`/product/${item.productId}`)}` : line;
+    })
+    .join("\n");
+
+const renderLine = (line: string, values: WhatsAppMessageValues) => {
+  let placeholders = 0;
+  let filled = 0;
+  const rendered = line.replace(/\{\{\s*(\w+)\s*\}\}/g, (token, key: string) => {
+    // Unknown placeholders are left as typed so mistakes show up in the preview
+    if (!(key in WHATSAPP_PLACEHOLDERS)) return token;
+    const value = values[key as WhatsAppPlaceholder] ?? "";
+    placeholders += 1;
+    if (value) filled += 1;
+    return value;
+  });
+  // Lines such as "Phone: {{customerPhone}}" are dropped when there's nothing to show
+  return placeholders > 0 && filled === 0 ? null : rendered;
+};
+
+export const renderWhatsAppTemplate = (template: string, values: WhatsAppMessageValues) =>
+  template
+    .split("\n")
+    .map((line) => renderLine(line, values))
+    .filter((line) => line !== null)
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+export const getOrderMessageValues = (
+  order: Order,
+  settings: StoreSettings
+): WhatsAppMessageValues => {
+  const currency = order.currency ?? settings.defaultCurrency;
+  const address = order.shippingAddress;
+
+  return {
+    storeName: settings.storeName,
+    orderNumber: order.orderNumber,
+    orderLink: absoluteUrl(`/admin/orders/${order.id}`),
+    items: formatItems(order.items, currency),
+    subtotal: formatMoney(order.subtotal, currency),
+    shipping: order.shippingFee !== undefined ? formatMoney(order.shippingFee, currency) : "",
+    discount: order.discount
+      ? `−${formatMoney(order.discount, currency)}${order.couponCode ? ` (${order.couponCode})` : ""}`
+      : "",
+    tax: order.tax ? formatMoney(order.tax, currency) : "",
+    total: formatMoney(order.total, currency),
+    currency,
+    customerName: order.contact?.fullName || order.customerName || "",
+    customerEmail: order.contact?.email || order.customerEmail || "",
+    customerPhone: order.contact?.phone || "",
+    address: address
+      ? [
+          address.line1,
+          address.line2,
+          address.city,
+          address.region,
+          address.postalCode,
+          address.country,
+        ]
+          .filter(Boolean)
+          .join(", ")
+      : order.deliveryMethod === "pickup"
+        ? "Store pickup"
+        : "",
+  };
+};
+
+export const getBuyNowMessageValues = (
+  product: Product,
+  quantity: number,
+  price: number,
+  currency: CurrencyCode,
+  settings: StoreSettings,
+  customer?: MessageCustomer,
+  variantName?: string
+): WhatsAppMessageValues => ({
+  storeName: settings.storeName,
+  items: formatItems(
+    [{ name: product.name, variantName, quantity, price, productId: product.id }],
+    currency
+  ),
+  subtotal: formatMoney(price * quantity, currency),
+  total: formatMoney(price * quantity, currency),
+  currency,
+  customerName: customer?.name ?? "",
+  customerEmail: customer?.email ?? "",
+  customerPhone: customer?.phone ?? "",
+});
+
+// Without an address, fall back to the region of the shopper's browser locale
+const getBrowserCountry = () => {
+  try {
+    return new Intl.Locale(navigator.language).maximize().region;
+  } catch {
+    return undefined;
+  }
+};
+
+export const resolveWhatsAppNumber = (settings: StoreSettings, country?: string) => {
+  const target = country || getBrowserCountry();
+  const route = target
+    ? settings.whatsappRoutes.find(
+        (candidate) => candidate.phoneNumber && matchesCountry(candidate.country, target)
+      )
+    : undefined;
+  return route?.phoneNumber || settings.whatsappNumber;
+};
+
+export const getOrderWhatsAppUrl = (order: Order, settings: StoreSettings) =>
+  getWhatsAppUrl(
+    resolveWhatsAppNumber(settings, order.shippingAddress?.country),
+    renderWhatsAppTemplate(settings.whatsappTemplates.order, getOrderMessageValues(order, settings))
+  );
+
+export const getBuyNowWhatsAppUrl = (
+  values: WhatsAppMessageValues,
+  settings: StoreSettings,
+  country?: string
+) =>
+  getWhatsAppUrl(
+    resolveWhatsAppNumber(settings, country),
+    renderWhatsAppTemplate(settings.whatsappTemplates.buyNow, values)
+  );
+
+// Sample data for the template preview in the admin settings
+export const SAMPLE_MESSAGE_VALUES: WhatsAppMessageValues = {
+  orderNumber: "1042",
+  orderLink: "https://example.com/admin/orders/1042",
+  items:
+    "2 x Linen Shirt ($35.00 each) https://example.com/product/1\n1 x Canvas Tote ($18.00 each) https://example.com/product/2",
+  subtotal: "$88.00",
+  shipping: "$5.00",
+  discount: "−$8.80 (WELCOME10)",
+  tax: "$7.92",
+  total: "$92.12",
+  currency: "USD",
+  customerName: "Jane Doe",
+  customerEmail: "jane@example.com",
+  customerPhone: "+1 555 010 2030",
+  address: "12 Market Street, Springfield, 12345, United States",
+};
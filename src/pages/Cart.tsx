@@ -1,66 +1,156 @@
-import { useCart } from "@/contexts/CartContext";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  getCartLineId,
+  getLinePrice,
+  getLineStock,
+  getLineVariant,
+  isOutOfStock,
+  useCart,
+} from "@/contexts/CartContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { useWishlist } from "@/contexts/WishlistContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
 import { Button } from "@/components/ui/button";
-import { Trash2, Plus, Minus, ShoppingBag } from "lucide-react";
-import { Link } from "react-router-dom";
+import { Input } from "@/components/ui/input";
+import { Trash2, Plus, Minus, ShoppingBag, Tag, X, Heart } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
 import { useToast } from "@/components/ui/use-toast";
-import { useState } from "react";
+import { FormEvent, useEffect, useState } from "react";
+import { getErrorMessage } from "@/api/client";
+import { CURRENCIES } from "@/lib/currency";
+import { formatMoney } from "@/lib/money";
+import { describeCoupon } from "@/lib/coupons";
+import { priceOrder, toPricingLines } from "@/lib/pricing";
+import { describeVariant, getVariantImage } from "@/lib/variants";
+import PriceSummary from "@/components/PriceSummary";
 
 const Cart = () => {
-  const { cartItems, removeFromCart, updateQuantity, clearCart, totalItems } = useCart();
+  const {
+    cartItems,
+    removeFromCart,
+    updateQuantity,
+    clearCart,
+    totalItems,
+    priceChanges,
+    dismissPriceChanges,
+    revalidateCart,
+    syncing,
+    coupon,
+    applyCoupon,
+    removeCoupon,
+  } = useCart();
+  const { settings } = useStoreSettings();
+  const { saveForLater } = useWishlist();
+  const { user } = useAuth();
+  const { currency, convert, formatPrice } = useCurrency();
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [checkoutLoading, setCheckoutLoading] = useState(false);
+  const [couponCode, setCouponCode] = useState("");
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
 
-  // Calculate total cost
-  const subtotal = cartItems.reduce(
-    (total, item) => {
-      const price = typeof item.product.price === "string" 
-        ? parseFloat(item.product.price) 
-        : item.product.price;
-      return total + price * item.quantity;
-    }, 
-    0
+  // Prices and stock may have moved since items were added. Checked once per
+  // visit, after a signed-in cart has loaded.
+  const [revalidated, setRevalidated] = useState(false);
+  useEffect(() => {
+    if (revalidated || syncing || cartItems.length === 0) return;
+    setRevalidated(true);
+    revalidateCart().catch((err) => console.error("Error revalidating cart:", err));
+  }, [revalidated, syncing, cartItems.length, revalidateCart]);
+
+  const outOfStockItems = cartItems.filter(isOutOfStock);
+
+  // Items priced in a currency we have no rate for can't be totalled
+  const unconvertibleItems = cartItems.filter(
+    (item) => convert(getLinePrice(item), item.product.currency) === null
   );
+  // Without an address yet, shipping and tax follow the store defaults
+  const pricing = priceOrder({
+    lines: toPricingLines(cartItems, convert),
+    deliveryMethod: "delivery",
+    coupon,
+    settings,
+    currency,
+    convert,
+  });
+  const discount = pricing.discount;
+
+  const handleApplyCoupon = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!couponCode.trim()) return;
+
+    setApplyingCoupon(true);
+    try {
+      const applied = await applyCoupon(couponCode);
+      setCouponCode("");
+      toast({
+        title: "Code applied",
+        description: `${applied.code}: ${describeCoupon(applied, settings.defaultCurrency)}`,
+      });
+    } catch (err) {
+      toast({
+        title: "Code not applied",
+        description: getErrorMessage(err, "That code isn't valid"),
+        variant: "destructive",
+      });
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
 
-  const handleRemoveItem = (productId: string, productName: string) => {
-    removeFromCart(productId);
+  const handleRemoveItem = (lineId: string, productName: string) => {
+    removeFromCart(lineId);
     toast({
       title: "Item removed",
       description: `${productName} has been removed from your cart.`,
     });
   };
 
-  const handleQuantityChange = (productId: string, newQuantity: number) => {
-    updateQuantity(productId, newQuantity);
+  const handleSaveForLater = (lineId: string, productName: string) => {
+    saveForLater(lineId);
+    toast({
+      title: "Saved for later",
+      description: `${productName} has been moved to your wishlist.`,
+    });
   };
 
-  const handleCheckout = () => {
-    setCheckoutLoading(true);
-    
-    // Build WhatsApp message with cart details
-    const itemsList = cartItems
-      .map((item) => `${item.quantity}x ${item.product.name} ($${
-        typeof item.product.price === "string"
-          ? parseFloat(item.product.price).toFixed(2)
-          : item.product.price.toFixed(2)
-      } each)`)
-      .join("\n");
+  const handleQuantityChange = (lineId: string, newQuantity: number) => {
+    updateQuantity(lineId, newQuantity);
+  };
 
-    const message = `Hello, I would like to place an order:\n\n${itemsList}\n\nTotal: $${subtotal.toFixed(2)}`;
-    
-    // Open WhatsApp with the pre-filled message
-    window.open(
-      `https://wa.me/your-whatsapp-number?text=${encodeURIComponent(message)}`,
-      "_blank"
-    );
-    
-    // Clear cart after successful checkout
-    clearCart();
-    toast({
-      title: "Checkout completed",
-      description: "Your order has been sent to WhatsApp. Your cart has been cleared.",
-    });
-    
-    setCheckoutLoading(false);
+  const handleCheckout = async () => {
+    // Guests can build a cart, but orders belong to an account
+    if (!user) {
+      toast({
+        title: "Sign in to checkout",
+        description: "Your cart will be waiting for you.",
+      });
+      navigate("/login", { state: { from: "/checkout" } });
+      return;
+    }
+
+    setCheckoutLoading(true);
+    try {
+      // Don't start checkout against prices or stock the shopper hasn't seen
+      const { priceChanges: changes, stockIssues } = await revalidateCart();
+      if (changes.length > 0 || stockIssues.length > 0) {
+        toast({
+          title: "Your cart was updated",
+          description: "Some prices or stock levels changed. Please review your cart before checking out.",
+          variant: "destructive",
+        });
+        return;
+      }
+      navigate("/checkout");
+    } catch (err) {
+      toast({
+        title: "Checkout unavailable",
+        description: getErrorMessage(err, "Could not check your cart. Please try again."),
+        variant: "destructive",
+      });
+    } finally {
+      setCheckoutLoading(false);
+    }
   };
 
   return (
@@ -80,72 +170,134 @@ const Cart = () => {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           {/* Cart Items */}
           <div className="md:col-span-2 bg-white rounded-lg shadow-md p-6">
+            {priceChanges.length > 0 && (
+              <div className="mb-4 p-4 text-sm text-amber-800 bg-amber-50 rounded-md flex justify-between gap-4">
+                <div>
+                  <p className="font-medium mb-1">Some prices have changed since you added them:</p>
+                  <ul className="list-disc pl-5">
+                    {priceChanges.map((change) => {
+                      const current = cartItems.find((item) => getCartLineId(item) === change.lineId);
+                      return (
+                        <li key={change.lineId}>
+                          {change.name}: was {formatPrice(change.previousPrice, change.previousCurrency)}
+                          {current && (
+                            <>, now {formatPrice(getLinePrice(current), current.product.currency)}</>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+                <button onClick={dismissPriceChanges} aria-label="Dismiss price changes">
+                  <X size={16} />
+                </button>
+              </div>
+            )}
             <ul className="divide-y divide-gray-200">
-              {cartItems.map((item) => (
-                <li key={item.product.id} className="py-6 flex flex-col sm:flex-row">
-                  <div className="flex-shrink-0 w-24 h-24 border rounded-md overflow-hidden">
-                    {item.product.images && item.product.images.length > 0 ? (
-                      <img
-                        src={item.product.images[0].url}
-                        alt={item.product.name}
-                        className="w-full h-full object-cover"
-                        onError={(e) => {
-                          (e.target as HTMLImageElement).src =
-                            "https://via.placeholder.com/300?text=Image+Not+Available";
-                        }}
-                      />
-                    ) : (
-                      <div className="w-full h-full bg-gray-100 flex items-center justify-center">
-                        <span className="text-gray-400">No image</span>
-                      </div>
-                    )}
-                  </div>
-                  
-                  <div className="flex-1 ml-0 sm:ml-6 mt-4 sm:mt-0">
-                    <div className="flex justify-between">
-                      <h3 className="text-lg font-medium text-gray-900">
-                        <Link to={`/product/${item.product.id}`} className="hover:text-brand-600">
-                          {item.product.name}
-                        </Link>
-                      </h3>
-                      <p className="text-lg font-medium text-gray-900">
-                        ${typeof item.product.price === "string"
-                          ? parseFloat(item.product.price).toFixed(2)
-                          : item.product.price.toFixed(2)}
-                      </p>
+              {cartItems.map((item) => {
+                const lineId = getCartLineId(item);
+                const variant = getLineVariant(item);
+                const stock = getLineStock(item);
+                const image = getVariantImage(item.product, variant);
+
+                return (
+                  <li key={lineId} className="py-6 flex flex-col sm:flex-row">
+                    <div className="flex-shrink-0 w-24 h-24 border rounded-md overflow-hidden">
+                      {image ? (
+                        <img
+                          src={image.url}
+                          alt={item.product.name}
+                          className="w-full h-full object-cover"
+                          onError={(e) => {
+                            (e.target as HTMLImageElement).src =
+                              "https://via.placeholder.com/300?text=Image+Not+Available";
+                          }}
+                        />
+                      ) : (
+                        <div className="w-full h-full bg-gray-100 flex items-center justify-center">
+                          <span className="text-gray-400">No image</span>
+                        </div>
+                      )}
                     </div>
                     
-                    <div className="mt-4 flex justify-between items-center">
-                      <div className="flex items-center border rounded-md">
-                        <button
-                          onClick={() => handleQuantityChange(item.product.id, item.quantity - 1)}
-                          className="p-2 hover:bg-gray-100"
-                          aria-label="Decrease quantity"
-                        >
-                          <Minus size={16} />
-                        </button>
-                        <span className="px-4">{item.quantity}</span>
-                        <button
-                          onClick={() => handleQuantityChange(item.product.id, item.quantity + 1)}
-                          className="p-2 hover:bg-gray-100"
-                          aria-label="Increase quantity"
-                        >
-                          <Plus size={16} />
-                        </button>
+                    <div className="flex-1 ml-0 sm:ml-6 mt-4 sm:mt-0">
+                      <div className="flex justify-between">
+                        <h3 className="text-lg font-medium text-gray-900">
+                          <Link to={`/product/${item.product.id}`} className="hover:text-brand-600">
+                            {item.product.name}
+                          </Link>
+                        </h3>
+                        <p className="text-lg font-medium text-gray-900">
+                          {formatPrice(getLinePrice(item), item.product.currency)}
+                        </p>
                       </div>
+                      {variant && (
+                        <p className="text-sm text-gray-500">
+                          {describeVariant(item.product, variant)}
+                          {variant.sku && ` · SKU ${variant.sku}`}
+                        </p>
+                      )}
+                      {discount?.lineDiscounts[lineId] > 0 && (
+                        <p className="text-sm text-green-700 mt-1">
+                          {discount.coupon.code}: −
+                          {formatMoney(discount.lineDiscounts[lineId], currency)} on this item
+                        </p>
+                      )}
+                      {isOutOfStock(item) ? (
+                        <p className="text-sm font-medium text-red-600 mt-1">
+                          {item.variantId && !variant
+                            ? "This option is no longer available — remove it to check out"
+                            : "Out of stock — remove it to check out"}
+                        </p>
+                      ) : item.quantity >= stock ? (
+                        <p className="text-sm text-amber-600 mt-1">
+                          Only {stock} available
+                        </p>
+                      ) : null}
                       
-                      <button
-                        onClick={() => handleRemoveItem(item.product.id, item.product.name)}
-                        className="text-red-500 hover:text-red-700 flex items-center"
-                        aria-label="Remove item"
-                      >
-                        <Trash2 size={18} className="mr-1" />
-                        <span>Remove</span>
-                      </button>
+                      <div className="mt-4 flex justify-between items-center">
+                        <div className="flex items-center border rounded-md">
+                          <button
+                            onClick={() => handleQuantityChange(lineId, item.quantity - 1)}
+                            className="p-2 hover:bg-gray-100"
+                            aria-label="Decrease quantity"
+                          >
+                            <Minus size={16} />
+                          </button>
+                          <span className="px-4">{item.quantity}</span>
+                          <button
+                            onClick={() => handleQuantityChange(lineId, item.quantity + 1)}
+                            className="p-2 hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-transparent"
+                            aria-label="Increase quantity"
+                            disabled={item.quantity >= stock}
+                          >
+                            <Plus size={16} />
+                          </button>
+                        </div>
+                        
+                        <div className="flex items-center gap-4">
+                          <button
+                            onClick={() => handleSaveForLater(lineId, item.product.name)}
+                            className="text-gray-600 hover:text-brand-600 flex items-center"
+                            aria-label="Save for later"
+                          >
+                            <Heart size={18} className="mr-1" />
+                            <span>Save for later</span>
+                          </button>
+                          <button
+                            onClick={() => handleRemoveItem(lineId, item.product.name)}
+                            className="text-red-500 hover:text-red-700 flex items-center"
+                            aria-label="Remove item"
+                          >
+                            <Trash2 size={18} className="mr-1" />
+                            <span>Remove</span>
+                          </button>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </li>
-              ))}
+                  </li>
+                );
+              })}
             </ul>
             
             <div className="flex justify-between mt-6 pt-6 border-t border-gray-200">
@@ -161,21 +313,64 @@ const Cart = () => {
           {/* Order Summary */}
           <div className="bg-white rounded-lg shadow-md p-6 h-fit">
             <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
-            <div className="flex justify-between py-2">
-              <span>Subtotal ({totalItems} items)</span>
-              <span>${subtotal.toFixed(2)}</span>
-            </div>
-            <div className="border-t border-gray-200 my-4"></div>
-            <div className="flex justify-between py-2 font-semibold">
-              <span>Total</span>
-              <span>${subtotal.toFixed(2)}</span>
+            {coupon ? (
+              <div className="mt-2 p-3 rounded-md bg-gray-50 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center font-medium">
+                    <Tag size={14} className="mr-2" />
+                    {coupon.code} · {describeCoupon(coupon, settings.defaultCurrency)}
+                  </span>
+                  <button onClick={removeCoupon} aria-label="Remove code">
+                    <X size={16} />
+                  </button>
+                </div>
+                {pricing.couponError && (
+                  <p className="text-amber-700 mt-1">{pricing.couponError}</p>
+                )}
+              </div>
+            ) : (
+              <form onSubmit={handleApplyCoupon} className="flex gap-2 mt-2">
+                <Input
+                  value={couponCode}
+                  onChange={(e) => setCouponCode(e.target.value)}
+                  placeholder="Discount code"
+                  aria-label="Discount code"
+                  className="uppercase placeholder:normal-case"
+                />
+                <Button type="submit" variant="outline" disabled={applyingCoupon || !couponCode.trim()}>
+                  {applyingCoupon ? "Applying..." : "Apply"}
+                </Button>
+              </form>
+            )}
+            <div className="mt-4">
+              <PriceSummary
+                pricing={pricing}
+                currency={currency}
+                itemCount={totalItems}
+                estimated
+              />
             </div>
+            {unconvertibleItems.length > 0 && (
+              <div className="mt-4 p-3 text-sm text-amber-800 bg-amber-50 rounded-md">
+                {unconvertibleItems.map((item) => item.product.name).join(", ")}{" "}
+                {unconvertibleItems.length === 1 ? "is" : "are"} priced in a currency that
+                can't be converted to {CURRENCIES.find((option) => option.code === currency)?.name}.
+                Switch currency or remove {unconvertibleItems.length === 1 ? "it" : "them"} to
+                check out.
+              </div>
+            )}
             <Button
               className="w-full mt-6"
               onClick={handleCheckout}
-              disabled={checkoutLoading}
+              disabled={
+                checkoutLoading || unconvertibleItems.length > 0 || outOfStockItems.length > 0
+              }
             >
-              {checkoutLoading ? "Processing..." : "Checkout via WhatsApp"}
+              {checkoutLoading
+                ? "Checking cart..."
+                : user
+                  ? "Proceed to checkout"
+                  : "Sign in to checkout"}
             </Button>
           </div>
         </div>
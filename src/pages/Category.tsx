@@ -0,0 +1,198 @@
+import { Fragment, useMemo } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import Layout from "@/components/Layout";
+import ProductCard from "@/components/ProductCard";
+import TablePagination from "@/components/TablePagination";
+import { Button } from "@/components/ui/button";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories } from "@/contexts/CategoryContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { useProducts } from "@/contexts/ProductContext";
+import {
+  CATALOG_SORTS,
+  CatalogSort,
+  createPriceGetter,
+  filterProducts,
+  paginate,
+  parseCatalogQuery,
+  toCatalogSearchParams,
+} from "@/lib/catalog";
+import {
+  buildCategoryTree,
+  findCategoryBySlug,
+  flattenCategoryTree,
+  getCategoryPath,
+} from "@/lib/categories";
+
+const PAGE_SIZE = 12;
+
+// Lists a category's products together with those of its subcategories
+const CategoryPage = () => {
+  const { slug } = useParams();
+  const { products, loading: productsLoading, error } = useProducts();
+  const { categories, loading: categoriesLoading } = useCategories();
+  const { convert } = useCurrency();
+  const getPrice = useMemo(() => createPriceGetter(convert), [convert]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(
+    () => ({ ...parseCatalogQuery(searchParams), categories: [slug] }),
+    [searchParams, slug]
+  );
+
+  const category = findCategoryBySlug(categories, slug);
+  const path = category ? getCategoryPath(categories, category.id) : [];
+  const subcategories = useMemo(
+    () =>
+      flattenCategoryTree(buildCategoryTree(categories)).find(
+        (node) => node.id === category?.id
+      )?.children ?? [],
+    [categories, category]
+  );
+
+  const filteredProducts = useMemo(
+    () => filterProducts(products, query, categories, getPrice),
+    [products, query, categories, getPrice]
+  );
+  const { items: pageItems, page, pageCount } = paginate(filteredProducts, query.page, PAGE_SIZE);
+
+  // The category path only accepts sort and page; the slug is the filter
+  const updateQuery = (changes: { sort?: CatalogSort; page?: number }) =>
+    setSearchParams(toCatalogSearchParams({ ...query, page: 1, ...changes, categories: [] }));
+
+  if (categoriesLoading || (productsLoading && products.length === 0)) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!category) {
+    return (
+      <Layout>
+        <div className="text-center py-20">
+          <h1 className="text-2xl font-bold mb-2">Category not found</h1>
+          <p className="text-gray-500 mb-6">It may have been renamed or removed.</p>
+          <Button asChild>
+            <Link to="/products">Browse all products</Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <Breadcrumb className="mb-6">
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link to="/products">All Products</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          {path.map((item) => (
+            <Fragment key={item.id}>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                {item.id === category.id ? (
+                  <BreadcrumbPage>{item.name}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink asChild>
+                    <Link to={`/category/${item.slug}`}>{item.name}</Link>
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </Fragment>
+          ))}
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex flex-col md:flex-row gap-6 mb-8">
+        {category.imageUrl && (
+          <img
+            src={category.imageUrl}
+            alt={category.name}
+            className="w-full md:w-64 h-40 object-cover rounded-md"
+          />
+        )}
+        <div>
+          <h1 className="text-3xl font-bold">{category.name}</h1>
+          {category.description && (
+            <p className="text-gray-600 mt-2 max-w-2xl">{category.description}</p>
+          )}
+          {subcategories.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {subcategories.map((child) => (
+                <Button key={child.id} variant="outline" size="sm" asChild>
+                  <Link to={`/category/${child.slug}`}>{child.name}</Link>
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 text-red-700 bg-red-100 rounded-md">
+          Error loading products: {error}
+        </div>
+      ) : filteredProducts.length === 0 ? (
+        <div className="text-center py-20">
+          <h3 className="text-xl font-medium mb-2">No products here yet</h3>
+          <p className="text-gray-500">Check back soon or browse the rest of the store.</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-sm text-gray-500">
+              {filteredProducts.length} product{filteredProducts.length === 1 ? "" : "s"}
+            </p>
+            <Select
+              value={query.sort}
+              onValueChange={(value) => updateQuery({ sort: value as CatalogSort })}
+            >
+              <SelectTrigger className="w-[190px]">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {CATALOG_SORTS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8">
+            {pageItems.map((product) => (
+              <ProductCard key={product.id} product={product} />
+            ))}
+          </div>
+          <TablePagination
+            page={page}
+            pageCount={pageCount}
+            onPageChange={(target) => updateQuery({ sort: query.sort, page: target })}
+          />
+        </>
+      )}
+    </Layout>
+  );
+};
+
+export default CategoryPage;
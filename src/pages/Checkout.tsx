@@ -0,0 +1,585 @@
+import { FormEvent, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Control, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Check } from "lucide-react";
+import Layout from "@/components/Layout";
+import PriceSummary from "@/components/PriceSummary";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  CartItem,
+  getCartLineId,
+  getLinePrice,
+  getLineVariant,
+  useCart,
+} from "@/contexts/CartContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { Order, useOrders } from "@/contexts/OrderContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import { getErrorMessage } from "@/api/client";
+import { Coupon } from "@/api/coupons";
+import {
+  CHECKOUT_STEPS,
+  CHECKOUT_STEP_FIELDS,
+  CheckoutFormValues,
+  DELIVERY_OPTIONS,
+  checkoutSchema,
+  toCheckoutDetails,
+} from "@/lib/checkout";
+import { formatMoney } from "@/lib/money";
+import { calculateShipping, priceOrder, toPricingLines } from "@/lib/pricing";
+import { MOCK_CARDS, getPaymentProvider, getPaymentProviders } from "@/lib/payments";
+import { describeVariant } from "@/lib/variants";
+
+interface TextFieldProps {
+  control: Control<CheckoutFormValues>;
+  name: keyof CheckoutFormValues;
+  label: string;
+  type?: string;
+  placeholder?: string;
+  autoComplete?: string;
+}
+
+const TextField = ({ control, name, label, ...inputProps }: TextFieldProps) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <FormControl>
+          <Input {...inputProps} {...field} />
+        </FormControl>
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+// Everything an order is priced and shipped from. Switching payment method or
+// card leaves it unchanged, so the unpaid order can still be charged.
+const getOrderKey = (values: CheckoutFormValues, cartItems: CartItem[], coupon: Coupon | null) =>
+  JSON.stringify({
+    details: { ...toCheckoutDetails(values), paymentMethod: undefined },
+    lines: cartItems.map((item) => [getCartLineId(item), item.quantity, getLinePrice(item)]),
+    coupon: coupon?.code,
+  });
+
+const Checkout = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { cartItems, clearCart, revalidateCart, coupon } = useCart();
+  const { placeOrder, recordPayment } = useOrders();
+  const { settings } = useStoreSettings();
+  const { currency, convert } = useCurrency();
+  const [stepIndex, setStepIndex] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  // A declined payment keeps its order so a retry doesn't create a duplicate,
+  // as long as the order's details and cart haven't changed since
+  const [unpaidOrder, setUnpaidOrder] = useState<{ key: string; order: Order } | null>(null);
+  const paymentProviders = getPaymentProviders(settings);
+
+  const form = useForm<CheckoutFormValues>({
+    resolver: zodResolver(checkoutSchema),
+    defaultValues: {
+      fullName: user?.name ?? "",
+      email: user?.email ?? "",
+      phone: "",
+      deliveryMethod: "delivery",
+      line1: "",
+      line2: "",
+      city: "",
+      region: "",
+      postalCode: "",
+      country: "",
+      paymentMethod: "cod",
+      cardNumber: "",
+      cardExpiry: "",
+      cardCvc: "",
+    },
+  });
+
+  const values = form.watch();
+  // Pickup orders have nothing to ship, so the address step is skipped
+  const steps = CHECKOUT_STEPS.filter(
+    (step) => step.id !== "address" || values.deliveryMethod === "delivery"
+  );
+  const step = steps[Math.min(stepIndex, steps.length - 1)];
+  const currentIndex = steps.indexOf(step);
+
+  const lines = toPricingLines(cartItems, convert);
+  const destination = { country: values.country, region: values.region };
+  const pricing = priceOrder({
+    lines,
+    deliveryMethod: values.deliveryMethod,
+    destination,
+    coupon,
+    settings,
+    currency,
+    convert,
+  });
+
+  const handleNext = async () => {
+    if (await form.trigger(CHECKOUT_STEP_FIELDS[step.id])) {
+      setStepIndex(currentIndex + 1);
+    }
+  };
+
+  // paymentTab is the blank tab opened on click for providers that hand off
+  // in a new tab; it's closed unless the payment ends up there
+  const placeCheckoutOrder = async (formValues: CheckoutFormValues, paymentTab: Window | null) => {
+    // Payment methods can be switched off in settings while the page is open;
+    // checked before an order exists so none is left behind
+    const provider = getPaymentProvider(formValues.paymentMethod, settings);
+    if (!provider) {
+      paymentTab?.close();
+      toast({
+        title: "Payment method unavailable",
+        description: "Please choose another payment method.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    let tabUsed = false;
+    try {
+      const { priceChanges, stockIssues } = await revalidateCart();
+      if (priceChanges.length > 0 || stockIssues.length > 0) {
+        toast({
+          title: "Your cart was updated",
+          description: "Some prices or stock levels changed. Please review your cart.",
+          variant: "destructive",
+        });
+        navigate("/cart");
+        return;
+      }
+
+      const orderKey = getOrderKey(formValues, cartItems, coupon);
+      const order =
+        unpaidOrder?.key === orderKey
+          ? unpaidOrder.order
+          : await placeOrder(cartItems, toCheckoutDetails(formValues), coupon);
+      const intent = await provider.confirm(await provider.createIntent(order), {
+        card: {
+          number: formValues.cardNumber,
+          expiry: formValues.cardExpiry,
+          cvc: formValues.cardCvc,
+        },
+      });
+      const recorded = await recordPayment(order.id, intent);
+
+      if (intent.status === "failed") {
+        setUnpaidOrder({ key: orderKey, order: recorded });
+        toast({
+          title: "Payment failed",
+          description: intent.failureReason || "Please try again or choose another payment method.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Only now is it safe to let go of the cart
+      clearCart();
+
+      if (intent.status === "requires_action" && intent.redirectUrl) {
+        if (intent.redirectUrl.startsWith("/")) {
+          navigate(intent.redirectUrl, { replace: true });
+        } else {
+          window.location.assign(intent.redirectUrl);
+        }
+        return;
+      }
+      if (intent.redirectUrl && paymentTab) {
+        paymentTab.location.href = intent.redirectUrl;
+        tabUsed = true;
+      }
+      navigate(`/orders/${order.id}/confirmation`, { replace: true, state: { order: recorded } });
+    } catch (err) {
+      console.error("Error placing order:", err);
+      toast({
+        title: "Checkout failed",
+        description: getErrorMessage(err, "Failed to place order"),
+        variant: "destructive",
+      });
+    } finally {
+      if (!tabUsed) paymentTab?.close();
+      setSubmitting(false);
+    }
+  };
+
+  // Enter in a field advances the wizard instead of placing the order early
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    if (step.id !== "review") {
+      e.preventDefault();
+      handleNext();
+      return;
+    }
+    // Opened before any await, while the click still counts as a user gesture
+    const provider = getPaymentProvider(form.getValues("paymentMethod"), settings);
+    const paymentTab = provider?.opensInNewTab ? window.open("", "_blank") : null;
+    if (paymentTab) paymentTab.opener = null;
+    form.handleSubmit(
+      (formValues) => placeCheckoutOrder(formValues, paymentTab),
+      () => paymentTab?.close()
+    )(e);
+  };
+
+  if (cartItems.length === 0 && !submitting) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center min-h-[50vh]">
+          <h1 className="text-2xl font-bold mb-4">Your cart is empty</h1>
+          <Button asChild>
+            <Link to="/products">Continue Shopping</Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const deliveryOption = DELIVERY_OPTIONS.find((option) => option.value === values.deliveryMethod);
+
+  return (
+    <Layout>
+      <div className="max-w-5xl mx-auto py-8">
+        <h1 className="text-3xl font-bold mb-6">Checkout</h1>
+
+        <ol className="flex flex-wrap gap-4 mb-8 text-sm">
+          {steps.map((item, index) => (
+            <li
+              key={item.id}
+              className={`flex items-center gap-2 ${
+                item === step ? "font-semibold text-gray-900" : "text-gray-500"
+              }`}
+            >
+              <span
+                className={`flex h-6 w-6 items-center justify-center rounded-full border ${
+                  index < currentIndex ? "bg-brand-600 border-brand-600 text-white" : ""
+                }`}
+              >
+                {index < currentIndex ? <Check size={14} /> : index + 1}
+              </span>
+              {item.title}
+            </li>
+          ))}
+        </ol>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <Form {...form}>
+            <form onSubmit={handleSubmit} className="md:col-span-2 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>{step.title}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {step.id === "contact" && (
+                    <>
+                      <TextField
+                        control={form.control}
+                        name="fullName"
+                        label="Full name"
+                        autoComplete="name"
+                      />
+                      <TextField
+                        control={form.control}
+                        name="email"
+                        label="Email"
+                        type="email"
+                        autoComplete="email"
+                      />
+                      <TextField
+                        control={form.control}
+                        name="phone"
+                        label="Phone"
+                        type="tel"
+                        placeholder="e.g. +971 50 123 4567"
+                        autoComplete="tel"
+                      />
+                    </>
+                  )}
+
+                  {step.id === "delivery" && (
+                    <FormField
+                      control={form.control}
+                      name="deliveryMethod"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <RadioGroup
+                              value={field.value}
+                              onValueChange={field.onChange}
+                              className="space-y-2"
+                            >
+                              {DELIVERY_OPTIONS.map((option) => (
+                                <Label
+                                  key={option.value}
+                                  htmlFor={`delivery-${option.value}`}
+                                  className="flex items-center gap-3 rounded-md border p-4 cursor-pointer font-normal"
+                                >
+                                  <RadioGroupItem
+                                    id={`delivery-${option.value}`}
+                                    value={option.value}
+                                  />
+                                  <div className="flex-1">
+                                    <div className="font-medium">{option.label}</div>
+                                    <div className="text-sm text-gray-500">
+                                      {option.description}
+                                    </div>
+                                  </div>
+                                  <span className="text-sm font-medium">
+                                    {formatMoney(
+                                      calculateShipping(
+                                        lines,
+                                        option.value,
+                                        destination,
+                                        settings,
+                                        currency,
+                                        convert
+                                      ).amount,
+                                      currency
+                                    )}
+                                  </span>
+                                </Label>
+                              ))}
+                            </RadioGroup>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {step.id === "address" && (
+                    <>
+                      <TextField
+                        control={form.control}
+                        name="line1"
+                        label="Address"
+                        autoComplete="address-line1"
+                      />
+                      <TextField
+                        control={form.control}
+                        name="line2"
+                        label="Apartment, suite, etc. (optional)"
+                        autoComplete="address-line2"
+                      />
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <TextField
+                          control={form.control}
+                          name="city"
+                          label="City"
+                          autoComplete="address-level2"
+                        />
+                        <TextField
+                          control={form.control}
+                          name="region"
+                          label="State / Region (optional)"
+                          autoComplete="address-level1"
+                        />
+                        <TextField
+                          control={form.control}
+                          name="postalCode"
+                          label="Postal code (optional)"
+                          autoComplete="postal-code"
+                        />
+                        <TextField
+                          control={form.control}
+                          name="country"
+                          label="Country"
+                          autoComplete="country-name"
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {step.id === "payment" && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="paymentMethod"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <RadioGroup
+                                value={field.value}
+                                onValueChange={field.onChange}
+                                className="space-y-2"
+                              >
+                                {paymentProviders.map((provider) => (
+                                  <Label
+                                    key={provider.id}
+                                    htmlFor={`payment-${provider.id}`}
+                                    className="flex items-center gap-3 rounded-md border p-4 cursor-pointer font-normal"
+                                  >
+                                    <RadioGroupItem
+                                      id={`payment-${provider.id}`}
+                                      value={provider.id}
+                                    />
+                                    <div>
+                                      <div className="font-medium">{provider.label}</div>
+                                      <div className="text-sm text-gray-500">
+                                        {provider.description}
+                                      </div>
+                                    </div>
+                                  </Label>
+                                ))}
+                              </RadioGroup>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {values.paymentMethod === "card" && (
+                        <>
+                          <TextField
+                            control={form.control}
+                            name="cardNumber"
+                            label="Card number"
+                            placeholder={MOCK_CARDS.success}
+                            autoComplete="cc-number"
+                          />
+                          <div className="grid grid-cols-2 gap-4">
+                            <TextField
+                              control={form.control}
+                              name="cardExpiry"
+                              label="Expiry"
+                              placeholder="MM/YY"
+                              autoComplete="cc-exp"
+                            />
+                            <TextField
+                              control={form.control}
+                              name="cardCvc"
+                              label="CVC"
+                              autoComplete="cc-csc"
+                            />
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            Test mode: {MOCK_CARDS.success} succeeds, {MOCK_CARDS.declined} is
+                            declined and {MOCK_CARDS.requiresAction} requires authentication.
+                          </p>
+                        </>
+                      )}
+                    </>
+                  )}
+
+                  {step.id === "review" && (
+                    <div className="space-y-4 text-sm">
+                      <div>
+                        <h3 className="font-semibold mb-1">Contact</h3>
+                        <p>{values.fullName}</p>
+                        <p className="text-gray-600">
+                          {values.email} · {values.phone}
+                        </p>
+                      </div>
+                      <div>
+                        <h3 className="font-semibold mb-1">Delivery</h3>
+                        <p>{deliveryOption?.label}</p>
+                        {values.deliveryMethod === "delivery" && (
+                          <p className="text-gray-600">
+                            {[
+                              values.line1,
+                              values.line2,
+                              values.city,
+                              values.region,
+                              values.postalCode,
+                              values.country,
+                            ]
+                              .filter(Boolean)
+                              .join(", ")}
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <h3 className="font-semibold mb-1">Payment</h3>
+                        <p>
+                          {
+                            paymentProviders.find(
+                              (provider) => provider.id === values.paymentMethod
+                            )?.label
+                          }
+                        </p>
+                      </div>
+                      <div>
+                        <h3 className="font-semibold mb-1">Items</h3>
+                        <ul className="divide-y divide-gray-100">
+                          {cartItems.map((item) => (
+                            <li key={getCartLineId(item)} className="py-2 flex justify-between">
+                              <span>
+                                {item.quantity} x {item.product.name}
+                                {item.variantId && (
+                                  <span className="text-gray-500">
+                                    {" "}
+                                    ({describeVariant(item.product, getLineVariant(item))})
+                                  </span>
+                                )}
+                              </span>
+                              <span>
+                                {formatMoney(
+                                  (convert(getLinePrice(item), item.product.currency) ?? 0) *
+                                    item.quantity,
+                                  currency
+                                )}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="flex justify-between">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() =>
+                    currentIndex === 0 ? navigate("/cart") : setStepIndex(currentIndex - 1)
+                  }
+                  disabled={submitting}
+                >
+                  {currentIndex === 0 ? "Back to cart" : "Back"}
+                </Button>
+                {step.id === "review" ? (
+                  <Button type="submit" disabled={submitting}>
+                    {submitting ? "Placing order..." : "Place order"}
+                  </Button>
+                ) : (
+                  <Button type="submit">Continue</Button>
+                )}
+              </div>
+            </form>
+          </Form>
+
+          <div className="bg-white rounded-lg shadow-md p-6 h-fit">
+            <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
+            <PriceSummary pricing={pricing} currency={currency} />
+            {pricing.couponError && (
+              <p className="text-sm text-amber-700 py-2">
+                {coupon.code} wasn't applied: {pricing.couponError}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Checkout;
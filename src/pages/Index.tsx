@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import Layout from "@/components/Layout";
 import ProductCard from "@/components/ProductCard";
 import { Button } from "@/components/ui/button";
@@ -48,8 +49,9 @@ const Index = () => {
               <Button
                 size="lg"
                 className="bg-white text-blue-700 hover:bg-blue-50"
+                asChild
               >
-                Shop Now
+                <Link to="/products">Shop Now</Link>
               </Button>
               <Button
                 size="lg"
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useLocation, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -19,6 +19,9 @@ import { GoogleLogin } from "@react-oauth/google";
 
 const Login = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  // Send the user back to wherever they were asked to sign in
+  const redirectTo = (location.state as { from?: string } | null)?.from || "/";
   const { login } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -39,7 +42,7 @@ const Login = () => {
     try {
       await login(email, password);
       toast.success("User login successful");
-      navigate("/");
+      navigate(redirectTo, { replace: true });
     } catch (error) {
       toast.error("Invalid email or password");
     } finally {
@@ -125,7 +128,7 @@ const Login = () => {
                         try {
                           await googleLogin(credentialResponse);
                           toast.success("Google login successfull");
-                          navigate("/");
+                          navigate(redirectTo, { replace: true });
                         } catch (error) {
                           toast.error("Google login failed");
                         }
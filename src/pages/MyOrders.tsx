@@ -0,0 +1,90 @@
+import { useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Package } from "lucide-react";
+import Layout from "@/components/Layout";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useOrders } from "@/contexts/OrderContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import { formatMoney } from "@/lib/money";
+import { getLineId } from "@/lib/variants";
+
+const MyOrders = () => {
+  const { orders, ordersLoading: loading, error, fetchMyOrders } = useOrders();
+  const { settings } = useStoreSettings();
+
+  useEffect(() => {
+    fetchMyOrders();
+  }, [fetchMyOrders]);
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto py-8">
+        <h1 className="text-3xl font-bold mb-6">My Orders</h1>
+
+        {loading && orders.length === 0 ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+          </div>
+        ) : error ? (
+          <div className="p-4 text-red-700 bg-red-100 rounded-md">
+            {error}
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-12">
+            <Package className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+            <h2 className="text-xl font-medium text-gray-900 mb-2">No orders yet</h2>
+            <p className="text-gray-500 mb-6">Orders you place will show up here.</p>
+            <Link to="/products">
+              <Button>Start Shopping</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => (
+              <Card key={order.id}>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <div>
+                    <CardTitle className="text-lg">Order #{order.orderNumber}</CardTitle>
+                    <p className="text-sm text-gray-500">
+                      Placed on {new Date(order.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <OrderStatusBadge status={order.status} />
+                </CardHeader>
+                <CardContent>
+                  <ul className="divide-y divide-gray-100">
+                    {order.items.map((item) => (
+                      <li
+                        key={getLineId(item.productId, item.variantId)}
+                        className="py-2 flex justify-between text-sm"
+                      >
+                        <Link to={`/product/${item.productId}`} className="hover:text-brand-600">
+                          {item.quantity} x {item.name}
+                          {item.variantName && ` (${item.variantName})`}
+                        </Link>
+                        <span>
+                          {formatMoney(
+                            item.price * item.quantity,
+                            order.currency ?? settings.defaultCurrency
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex justify-between pt-3 mt-2 border-t font-semibold">
+                    <span>Total</span>
+                    <span>{formatMoney(order.total, order.currency ?? settings.defaultCurrency)}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default MyOrders;
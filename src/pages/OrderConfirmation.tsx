@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { CheckCircle2 } from "lucide-react";
+import Layout from "@/components/Layout";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Order } from "@/contexts/OrderContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import * as ordersApi from "@/api/orders";
+import { getErrorMessage } from "@/api/client";
+import { DELIVERY_OPTIONS } from "@/lib/checkout";
+import { formatMoney } from "@/lib/money";
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from "@/lib/payments";
+import { getOrderWhatsAppUrl } from "@/lib/whatsapp";
+import { getLineId } from "@/lib/variants";
+
+const OrderConfirmation = () => {
+  const { id } = useParams<{ id: string }>();
+  const location = useLocation();
+  const { settings } = useStoreSettings();
+  // Checkout hands the new order over so we don't have to fetch it again
+  const [order, setOrder] = useState<Order | null>(
+    () => (location.state as { order?: Order } | null)?.order ?? null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (order?.id === id) return;
+
+    const fetchOrder = async () => {
+      try {
+        setOrder(await ordersApi.getOrder(id));
+      } catch (err) {
+        console.error("Error fetching order:", err);
+        setError(getErrorMessage(err, "Failed to load your order"));
+      }
+    };
+
+    fetchOrder();
+  }, [id, order?.id]);
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center min-h-[50vh]">
+          <h1 className="text-2xl font-bold mb-4">Order not available</h1>
+          <p>{error}</p>
+          <Button asChild className="mt-6">
+            <Link to="/orders">View my orders</Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!order) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const currency = order.currency ?? settings.defaultCurrency;
+  const delivery = DELIVERY_OPTIONS.find((option) => option.value === order.deliveryMethod);
+  const address = order.shippingAddress;
+
+  const handleSendToWhatsApp = () => {
+    window.open(getOrderWhatsAppUrl(order, settings), "_blank");
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-3xl mx-auto py-8">
+        <div className="text-center mb-8">
+          <CheckCircle2 className="mx-auto h-12 w-12 text-green-600 mb-4" />
+          <h1 className="text-3xl font-bold mb-2">Thank you for your order!</h1>
+          <p className="text-gray-600">
+            Your order number is{" "}
+            <span className="font-semibold text-gray-900">#{order.orderNumber}</span>
+          </p>
+          {order.contact?.email && (
+            <p className="text-sm text-gray-500 mt-1">
+              We'll keep you updated at {order.contact.email}.
+            </p>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-lg">Order summary</CardTitle>
+            <OrderStatusBadge status={order.status} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ul className="divide-y divide-gray-100">
+              {order.items.map((item) => (
+                <li
+                  key={getLineId(item.productId, item.variantId)}
+                  className="py-2 flex justify-between text-sm"
+                >
+                  <span>
+                    {item.quantity} x {item.name}
+                    {item.variantName && (
+                      <span className="text-gray-500"> ({item.variantName})</span>
+                    )}
+                  </span>
+                  <span>{formatMoney(item.price * item.quantity, currency)}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="border-t pt-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>{formatMoney(order.subtotal, currency)}</span>
+              </div>
+              {order.shippingFee !== undefined && (
+                <div className="flex justify-between">
+                  <span>Shipping</span>
+                  <span>{formatMoney(order.shippingFee, currency)}</span>
+                </div>
+              )}
+              {order.discount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Discount{order.couponCode && ` (${order.couponCode})`}</span>
+                  <span>−{formatMoney(order.discount, currency)}</span>
+                </div>
+              )}
+              {order.tax > 0 && (
+                <div className="flex justify-between">
+                  <span>
+                    {order.taxInclusive ? "Includes tax" : "Tax"}
+                    {order.taxRate ? ` (${order.taxRate}%)` : ""}
+                  </span>
+                  <span>{formatMoney(order.tax, currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold text-base pt-1">
+                <span>Total</span>
+                <span>{formatMoney(order.total, currency)}</span>
+              </div>
+            </div>
+            {delivery && (
+              <div className="border-t pt-3 text-sm">
+                <h3 className="font-semibold mb-1">{delivery.label}</h3>
+                {address && (
+                  <p className="text-gray-600">
+                    {[
+                      address.line1,
+                      address.line2,
+                      address.city,
+                      address.region,
+                      address.postalCode,
+                      address.country,
+                    ]
+                      .filter(Boolean)
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+            {order.paymentMethod && (
+              <div className="border-t pt-3 text-sm flex justify-between">
+                <span className="font-semibold">{PAYMENT_METHOD_LABELS[order.paymentMethod]}</span>
+                <span className="text-gray-600">
+                  {PAYMENT_STATUS_LABELS[order.paymentStatus ?? "pending"]}
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col sm:flex-row gap-4 justify-center mt-8">
+          {settings.whatsappNumber && (
+            <Button variant="outline" onClick={handleSendToWhatsApp}>
+              Send order via WhatsApp
+            </Button>
+          )}
+          <Button asChild variant="outline">
+            <Link to="/orders">View my orders</Link>
+          </Button>
+          <Button asChild>
+            <Link to="/products">Continue shopping</Link>
+          </Button>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default OrderConfirmation;
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { useOrders } from "@/contexts/OrderContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import * as ordersApi from "@/api/orders";
+import { getErrorMessage } from "@/api/client";
+import { getPaymentProviders } from "@/lib/payments";
+
+// Landing page for providers that send the shopper away to authenticate
+const PaymentCallback = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { recordPayment } = useOrders();
+  const { settings } = useStoreSettings();
+  const [error, setError] = useState<string | null>(null);
+  // The redirect already handled, so a re-run (StrictMode, settings loading)
+  // doesn't record the same payment twice
+  const handledRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const redirect = searchParams.toString();
+    if (handledRef.current === redirect) return;
+    handledRef.current = redirect;
+
+    const completePayment = async () => {
+      try {
+        for (const provider of getPaymentProviders(settings)) {
+          const intent = await provider.handleRedirect(searchParams);
+          if (!intent) continue;
+
+          // A reload of this page finds the payment already on the order
+          const existing = await ordersApi.getOrder(intent.orderId);
+          const order =
+            existing.paymentReference === intent.id && existing.paymentStatus === intent.status
+              ? existing
+              : await recordPayment(intent.orderId, intent);
+          if (intent.status === "failed") {
+            setError(intent.failureReason || "Your payment could not be completed.");
+            return;
+          }
+          navigate(`/orders/${order.id}/confirmation`, { replace: true, state: { order } });
+          return;
+        }
+        setError("We couldn't match this payment to an order.");
+      } catch (err) {
+        console.error("Error completing payment:", err);
+        setError(getErrorMessage(err, "Failed to complete your payment"));
+      }
+    };
+
+    completePayment();
+  }, [searchParams, settings, recordPayment, navigate]);
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center min-h-[50vh]">
+          <h1 className="text-2xl font-bold mb-4">Payment not completed</h1>
+          <p>{error}</p>
+          <Button asChild className="mt-6">
+            <Link to="/orders">View my orders</Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+      </div>
+    </Layout>
+  );
+};
+
+export default PaymentCallback;
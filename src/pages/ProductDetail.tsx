@@ -1,93 +1,152 @@
 import { useState, useEffect } from "react";
-import { useParams } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import Layout from "@/components/Layout";
+import WishlistButton from "@/components/WishlistButton";
 import { Button } from "@/components/ui/button";
-import { ShoppingCart } from "lucide-react";
+import { RefreshCw, ShoppingCart } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { Product, useProducts } from "@/contexts/ProductContext";
+import { useCategories } from "@/contexts/CategoryContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { useCart } from "@/contexts/CartContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { ApiError, getErrorMessage } from "@/api/client";
+import { getCategoryPath } from "@/lib/categories";
+import { toAmount } from "@/lib/money";
+import {
+  VariantSelection,
+  describeVariant,
+  findVariant,
+  getTotalStock,
+  getVariantImage,
+  getVariantPrice,
+  hasVariants,
+  isOptionValueAvailable,
+} from "@/lib/variants";
+import { getBuyNowMessageValues, getBuyNowWhatsAppUrl } from "@/lib/whatsapp";
+
+type LoadStatus = "loading" | "ready" | "not-found" | "error";
+
+const getPrimaryImageUrl = (product: Product) =>
+  product.images.find(img => img.isPrimary)?.url || product.images[0]?.url || null;
 
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
-  const { getProduct } = useProducts();
-  const [product, setProduct] = useState<Product | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { getProduct, loadProduct } = useProducts();
+  const { categories } = useCategories();
+  const { settings } = useStoreSettings();
+  const { currency, convert, formatPrice } = useCurrency();
+  const { addToCart } = useCart();
+  const { user } = useAuth();
+  // Render straight away from the catalog cache when we have it
+  const [product, setProduct] = useState<Product | null>(() => (id && getProduct(id)) || null);
+  const [status, setStatus] = useState<LoadStatus>(product ? "ready" : "loading");
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
   const [quantity, setQuantity] = useState(1);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selection, setSelection] = useState<VariantSelection>({});
+  const [selectedImage, setSelectedImage] = useState<string | null>(
+    product ? getPrimaryImageUrl(product) : null
+  );
   const { toast } = useToast();
 
   useEffect(() => {
-    if (id) {
-      const contextProduct = getProduct(id);
-      if (contextProduct) {
-        setProduct(contextProduct);
-        setSelectedImage(
-          contextProduct.images?.find(img => img.isPrimary)?.url || 
-          contextProduct.images?.[0]?.url || 
-          // @ts-ignore
-          contextProduct.image || null
-        );
-        setLoading(false);
-      } else {
-        const timer = setTimeout(() => {
-          const sampleProducts = [
-            {
-              id: "1",
-              name: "Wireless Earbuds",
-              price: 49.99,
-              images: [
-                {
-                  id: "1",
-                  url: "https://images.unsplash.com/photo-1618160702438-9b02ab6515c9?auto=format&fit=crop&w=500&q=60",
-                  altText: "Wireless Earbuds",
-                  isPrimary: true
-                },
-                {
-                  id: "2",
-                  url: "https://images.unsplash.com/photo-1590658268037-6bf12165a8df?auto=format&fit=crop&w=500&q=60",
-                  altText: "Wireless Earbuds Side View"
-                }
-              ],
-              description: "High quality wireless earbuds with noise cancellation."
-            },
-          ];
-          const foundProduct = sampleProducts.find(p => p.id === id) || null;
-          setProduct(foundProduct as any);
-          setSelectedImage(
-            foundProduct?.images?.find(img => img.isPrimary)?.url || 
-            foundProduct?.images?.[0]?.url || 
-            null
-          );
-          setLoading(false);
-        }, 500);
-
-        return () => clearTimeout(timer);
+    if (!id) {
+      setStatus("not-found");
+      return;
+    }
+
+    let cancelled = false;
+    const cached = getProduct(id);
+    setProduct(cached || null);
+    setSelectedImage(cached ? getPrimaryImageUrl(cached) : null);
+    setSelection({});
+    setStatus(cached ? "ready" : "loading");
+
+    const fetchProduct = async () => {
+      try {
+        const loaded = await loadProduct(id);
+        if (cancelled) return;
+        setProduct(loaded);
+        setSelectedImage(current => current || getPrimaryImageUrl(loaded));
+        setStatus("ready");
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Error fetching product:", err);
+        if (err instanceof ApiError && err.status === 404) {
+          setProduct(null);
+          setStatus("not-found");
+        } else if (!cached) {
+          setError(getErrorMessage(err, "Failed to load product"));
+          setStatus("error");
+        }
       }
+    };
+
+    fetchProduct();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, attempt, getProduct, loadProduct]);
+
+  // Undefined until every option has a value
+  const variant = product ? findVariant(product, selection) : undefined;
+  const variantName = product ? describeVariant(product, variant) : "";
+  const displayName = variantName ? `${product.name} (${variantName})` : product?.name;
+
+  const handleSelectOption = (optionName: string, value: string) => {
+    if (!product) return;
+    const next = { ...selection, [optionName]: value };
+    setSelection(next);
+    setQuantity(1);
+
+    const chosen = findVariant(product, next);
+    if (chosen?.imageId) {
+      setSelectedImage(getVariantImage(product, chosen)?.url ?? null);
     }
-  }, [id, getProduct]);
+  };
 
   const handleAddToCart = () => {
     if (product) {
+      const added = addToCart(product, quantity, variant);
+      if (added === 0) {
+        toast({
+          title: "No more stock",
+          description: `Your cart already holds all available units of ${displayName}.`,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Added to cart",
-        description: `${quantity} x ${product.name} has been added to your cart.`,
+        description:
+          added < quantity
+            ? `Only ${added} more of ${displayName} could be added; that's all we have in stock.`
+            : `${added} x ${displayName} has been added to your cart.`,
       });
     }
   };
 
   const handleBuyNow = () => {
     if (product) {
-      const message = `Hello! I'm interested in purchasing ${quantity} x ${product.name} (${formatPrice(product.price)} each).`;
-      const encodedMessage = encodeURIComponent(message);
-      window.open(`https://wa.me/your-whatsapp-number?text=${encodedMessage}`, '_blank');
+      // Quote the price the shopper sees, falling back to the product's own currency
+      const price = getVariantPrice(product, variant);
+      const converted = convert(price, product.currency);
+      const values = getBuyNowMessageValues(
+        product,
+        quantity,
+        converted ?? toAmount(price),
+        converted === null ? product.currency ?? settings.defaultCurrency : currency,
+        settings,
+        user ?? undefined,
+        variantName || undefined
+      );
+      window.open(getBuyNowWhatsAppUrl(values, settings), '_blank');
     }
   };
 
-  const formatPrice = (price: number | string) => {
-    const numPrice = typeof price === 'string' ? parseFloat(price) : price;
-    return numPrice.toFixed(2);
-  };
-
-  if (loading) {
+  if (status === "loading") {
     return (
       <Layout>
         <div className="flex items-center justify-center min-h-[60vh]">
@@ -105,21 +164,49 @@ const ProductDetail = () => {
     );
   }
 
-  if (!product) {
+  if (status === "error") {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center min-h-[60vh]">
+          <h1 className="text-2xl font-bold mb-4">Something went wrong</h1>
+          <p>{error}</p>
+          <Button className="mt-6 gap-2" onClick={() => setAttempt(count => count + 1)}>
+            <RefreshCw size={16} />
+            Try again
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (status === "not-found" || !product) {
     return (
       <Layout>
         <div className="flex flex-col items-center justify-center min-h-[60vh]">
           <h1 className="text-2xl font-bold mb-4">Product Not Found</h1>
           <p>Sorry, we couldn't find the product you're looking for.</p>
           <Button asChild className="mt-6">
-            <a href="/">Return to Home</a>
+            <Link to="/products">Browse Products</Link>
           </Button>
         </div>
       </Layout>
     );
   }
-// @ts-ignore
-  const availableImages = product.images || (product.image ? [{ url: product.image, altText: product.name }] : []);
+
+  const availableImages = product.images;
+  const withVariants = hasVariants(product);
+  // Until a variant is chosen, show whether any of them can be bought
+  const stock = variant
+    ? variant.stock
+    : withVariants
+      ? getTotalStock(product.variants)
+      : product.stock;
+  const outOfStock = stock <= 0;
+  const needsSelection = withVariants && !variant;
+  const quantityOptions = Array.from(
+    { length: Math.min(10, Math.max(stock, 1)) },
+    (_, index) => index + 1
+  );
 
   return (
     <Layout>
@@ -132,7 +219,10 @@ const ProductDetail = () => {
               {selectedImage ? (
                 <img 
                   src={selectedImage} 
-                  alt={product.name}
+                  alt={
+                    availableImages.find((image) => image.url === selectedImage)?.altText ||
+                    product.name
+                  }
                   className="w-full h-full object-contain"
                 />
               ) : (
@@ -166,8 +256,22 @@ const ProductDetail = () => {
           
           {/* Product Info Section */}
           <div className="space-y-6">
+            {product.categoryId && (
+              <nav className="text-sm text-gray-500 -mb-4" aria-label="Category">
+                {getCategoryPath(categories, product.categoryId).map((category, index) => (
+                  <span key={category.id}>
+                    {index > 0 && " / "}
+                    <Link to={`/category/${category.slug}`} className="hover:text-brand-600">
+                      {category.name}
+                    </Link>
+                  </span>
+                ))}
+              </nav>
+            )}
             <h1 className="text-3xl font-bold text-gray-900">{product.name}</h1>
-            <p className="text-2xl font-semibold text-brand-600">${formatPrice(product.price)}</p>
+            <p className="text-2xl font-semibold text-brand-600">
+              {formatPrice(getVariantPrice(product, variant), product.currency)}
+            </p>
             
             <div className="border-t border-b border-gray-200 py-4">
               <p className="text-gray-700 leading-relaxed">
@@ -175,6 +279,36 @@ const ProductDetail = () => {
               </p>
             </div>
 
+            {product.options.map((option) => (
+              <div key={option.name}>
+                <p className="mb-2 text-sm font-medium text-gray-700">
+                  {option.name}
+                  {selection[option.name] && (
+                    <span className="font-normal text-gray-500">: {selection[option.name]}</span>
+                  )}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {option.values.map((value) => {
+                    const { [option.name]: _current, ...others } = selection;
+                    const available = isOptionValueAvailable(product, others, option.name, value);
+                    return (
+                      <Button
+                        key={value}
+                        type="button"
+                        size="sm"
+                        variant={selection[option.name] === value ? "default" : "outline"}
+                        onClick={() => handleSelectOption(option.name, value)}
+                        disabled={!available}
+                        className={available ? undefined : "line-through"}
+                      >
+                        {value}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
             <div className="flex items-center space-x-4">
               <div className="flex items-center">
                 <label htmlFor="quantity" className="mr-3 text-sm font-medium text-gray-700">
@@ -186,11 +320,16 @@ const ProductDetail = () => {
                   onChange={(e) => setQuantity(parseInt(e.target.value))}
                   className="rounded-md border-gray-300 shadow-sm focus:border-brand-500 focus:ring-brand-500 text-sm py-2 px-3 border"
                 >
-                  {[1,2,3,4,5,6,7,8,9,10].map(num => (
+                  {quantityOptions.map(num => (
                     <option key={num} value={num}>{num}</option>
                   ))}
                 </select>
               </div>
+              {outOfStock ? (
+                <span className="text-sm font-medium text-red-600">Out of stock</span>
+              ) : !needsSelection && stock <= 5 ? (
+                <span className="text-sm font-medium text-amber-600">Only {stock} left</span>
+              ) : null}
             </div>
 
             <div className="flex flex-col sm:flex-row gap-4">
@@ -198,16 +337,21 @@ const ProductDetail = () => {
                 onClick={handleAddToCart} 
                 variant="outline" 
                 className="flex-1 gap-2"
+                disabled={outOfStock || needsSelection}
               >
                 <ShoppingCart size={18} />
-                Add to Cart
+                {needsSelection
+                  ? `Select ${product.options.map((option) => option.name.toLowerCase()).join(" and ")}`
+                  : "Add to Cart"}
               </Button>
               <Button 
                 onClick={handleBuyNow} 
                 className="flex-1 bg-brand-600 hover:bg-brand-700"
+                disabled={outOfStock || needsSelection}
               >
                 Buy Now
               </Button>
+              <WishlistButton product={product} className="h-10 w-10 shrink-0" />
             </div>
           </div>
         </div>
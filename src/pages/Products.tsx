@@ -1,39 +1,247 @@
-
-import { useEffect } from "react";
-import { useNavigate } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
-import { toast } from "sonner";
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Search, X } from "lucide-react";
 import Layout from "@/components/Layout";
+import ProductCard from "@/components/ProductCard";
+import TablePagination from "@/components/TablePagination";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories } from "@/contexts/CategoryContext";
+import { useProducts } from "@/contexts/ProductContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { buildCategoryTree, flattenCategoryTree } from "@/lib/categories";
+import {
+  CATALOG_SORTS,
+  CatalogQuery,
+  CatalogSort,
+  createPriceGetter,
+  filterProducts,
+  paginate,
+  parseCatalogQuery,
+  toCatalogSearchParams,
+} from "@/lib/catalog";
+import { formatMoney } from "@/lib/money";
+
+const PAGE_SIZE = 12;
 
 const Products = () => {
-  const navigate = useNavigate();
-  const { user, isAdmin } = useAuth();
-  
+  const { products, loading, error } = useProducts();
+  const { categories } = useCategories();
+  const categoryOptions = useMemo(
+    () => flattenCategoryTree(buildCategoryTree(categories)),
+    [categories]
+  );
+  const { currency, convert } = useCurrency();
+  const getPrice = useMemo(() => createPriceGetter(convert), [convert]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseCatalogQuery(searchParams), [searchParams]);
+  const [searchTerm, setSearchTerm] = useState(query.search);
+
+  // Slider bounds follow the catalog so the range is always meaningful
+  const priceBounds = useMemo(() => {
+    const prices = products.map(getPrice).filter(Number.isFinite);
+    return prices.length
+      ? [Math.floor(Math.min(...prices)), Math.ceil(Math.max(...prices))]
+      : [0, 0];
+  }, [products, getPrice]);
+  const [priceRange, setPriceRange] = useState<number[]>([]);
+
   useEffect(() => {
-    // Check if user is logged in and redirect based on role
-    if (user) {
-      if (isAdmin()) {
-        toast.info("Redirecting to admin dashboard");
-        navigate("/admin/dashboard");
-      } else {
-        toast.error("Regular users don't have access to products management yet");
-        // In a real app, we would show products list for regular users
-        navigate("/");
-      }
-    } else {
-      toast.error("Please login to view products");
-      navigate("/login");
-    }
-  }, [navigate, user, isAdmin]);
-  
+    setPriceRange([
+      query.minPrice ?? priceBounds[0],
+      query.maxPrice ?? priceBounds[1],
+    ]);
+  }, [query.minPrice, query.maxPrice, priceBounds]);
+
+  useEffect(() => {
+    setSearchTerm(query.search);
+  }, [query.search]);
+
+  const updateQuery = (changes: Partial<CatalogQuery>) => {
+    // Any filter change starts over from the first page
+    setSearchParams(toCatalogSearchParams({ ...query, page: 1, ...changes }));
+  };
+
+  const toggleCategory = (slug: string) => {
+    updateQuery({
+      categories: query.categories.includes(slug)
+        ? query.categories.filter((selected) => selected !== slug)
+        : [...query.categories, slug],
+    });
+  };
+
+  const handlePriceCommit = ([min, max]: number[]) => {
+    updateQuery({
+      minPrice: min > priceBounds[0] ? min : undefined,
+      maxPrice: max < priceBounds[1] ? max : undefined,
+    });
+  };
+
+  const filteredProducts = useMemo(
+    () => filterProducts(products, query, categories, getPrice),
+    [products, query, categories, getPrice]
+  );
+  const { items: pageItems, page, pageCount } = paginate(filteredProducts, query.page, PAGE_SIZE);
+  const hasFilters =
+    query.search !== "" ||
+    query.categories.length > 0 ||
+    query.minPrice !== undefined ||
+    query.maxPrice !== undefined ||
+    query.inStock;
+
   return (
     <Layout>
-      <div className="flex items-center justify-center h-[70vh]">
-        <div className="text-center">
-          <h1 className="text-2xl font-bold mb-4">Redirecting...</h1>
-          <p>Please wait while we redirect you.</p>
+      <div className="flex flex-col md:flex-row gap-4 justify-between md:items-center mb-8">
+        <h1 className="text-3xl font-bold">All Products</h1>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <form
+            className="flex w-full max-w-md items-center space-x-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateQuery({ search: searchTerm.trim() });
+            }}
+          >
+            <Input
+              type="text"
+              placeholder="Search products..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+            <Button type="submit">
+              <Search className="h-4 w-4 mr-1" />
+              Search
+            </Button>
+          </form>
+          <Select
+            value={query.sort}
+            onValueChange={(value) => updateQuery({ sort: value as CatalogSort })}
+          >
+            <SelectTrigger className="sm:w-[190px]">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              {CATALOG_SORTS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
       </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-8 mb-12">
+        <aside className="space-y-6">
+          <div>
+            <h2 className="font-semibold mb-3">Category</h2>
+            <div className="space-y-2">
+              {categoryOptions.map((category) => (
+                <div
+                  key={category.id}
+                  className="flex items-center space-x-2"
+                  style={{ paddingLeft: `${category.depth}rem` }}
+                >
+                  <Checkbox
+                    id={`category-${category.slug}`}
+                    checked={query.categories.includes(category.slug)}
+                    onCheckedChange={() => toggleCategory(category.slug)}
+                  />
+                  <Label htmlFor={`category-${category.slug}`} className="font-normal">
+                    {category.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {priceBounds[1] > priceBounds[0] && priceRange.length === 2 && (
+            <div>
+              <h2 className="font-semibold mb-3">Price</h2>
+              <Slider
+                min={priceBounds[0]}
+                max={priceBounds[1]}
+                step={1}
+                value={priceRange}
+                onValueChange={setPriceRange}
+                onValueCommit={handlePriceCommit}
+              />
+              <div className="flex justify-between text-sm text-gray-600 mt-2">
+                <span>{formatMoney(priceRange[0], currency)}</span>
+                <span>{formatMoney(priceRange[1], currency)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="in-stock"
+              checked={query.inStock}
+              onCheckedChange={(checked) => updateQuery({ inStock: checked === true })}
+            />
+            <Label htmlFor="in-stock" className="font-normal">
+              In stock only
+            </Label>
+          </div>
+
+          {hasFilters && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setSearchParams(new URLSearchParams())}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear filters
+            </Button>
+          )}
+        </aside>
+
+        <section className="md:col-span-3">
+          {loading && products.length === 0 ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+            </div>
+          ) : error ? (
+            <div className="p-4 text-red-700 bg-red-100 rounded-md">
+              Error loading products: {error}
+            </div>
+          ) : filteredProducts.length === 0 ? (
+            <div className="text-center py-20">
+              <h3 className="text-xl font-medium mb-2">No products found</h3>
+              <p className="text-gray-500">
+                Try removing some filters or a different search term.
+              </p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-4">
+                {filteredProducts.length} product{filteredProducts.length === 1 ? "" : "s"}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
+                {pageItems.map((product) => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+              <TablePagination
+                page={page}
+                pageCount={pageCount}
+                onPageChange={(target) =>
+                  setSearchParams(toCatalogSearchParams({ ...query, page: target }))
+                }
+              />
+            </>
+          )}
+        </section>
+      </div>
     </Layout>
   );
 };
@@ -12,10 +12,10 @@ import {
 } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
-import axios from "axios";
 import { useAuth } from "@/contexts/AuthContext";
 import { GoogleLogin } from "@react-oauth/google";
-import { config } from "@/config";
+import { signUp } from "@/api/auth";
+import { getErrorMessage } from "@/api/client";
 
 const Signup = () => {
   const [name, setName] = useState("");
@@ -30,21 +30,15 @@ const Signup = () => {
     setIsLoading(true);
 
     try {
-      const response = await axios.post(`${config.apiBaseUrl}/user/signup`, {
-        fullName: name,
-        username: email,
-        password,
-      });
-      if (response.data) {
-        await login(email, password);
-        toast.success("User login successfully");
-        navigate("/");
-      }
+      await signUp(name, email, password);
+      await login(email, password);
+      toast.success("User login successfully");
+      navigate("/");
     } catch (error) {
       console.error("Signup error:", error);
-      setIsLoading(false);
+      toast.error(getErrorMessage(error, "Failed to create account"));
     } finally {
-      setIsLoading(true);
+      setIsLoading(false);
     }
   };
 
@@ -0,0 +1,131 @@
+import { Link } from "react-router-dom";
+import { Heart, ShoppingCart, Trash2 } from "lucide-react";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { useWishlist } from "@/contexts/WishlistContext";
+import { hasVariants } from "@/lib/variants";
+
+const Wishlist = () => {
+  const { toast } = useToast();
+  const { formatPrice } = useCurrency();
+  const { wishlistItems, removeFromWishlist, moveToCart, syncing } = useWishlist();
+
+  const handleMoveToCart = (productId: string, productName: string) => {
+    if (moveToCart(productId) === 0) {
+      toast({
+        title: "Not available",
+        description: `${productName} is out of stock or already fully in your cart.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: "Moved to cart",
+      description: `${productName} has been moved to your cart.`,
+    });
+  };
+
+  if (syncing && wishlistItems.length === 0) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="py-8">
+        <h1 className="text-3xl font-bold mb-6">Wishlist</h1>
+
+        {wishlistItems.length === 0 ? (
+          <div className="text-center py-12">
+            <Heart className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+            <h2 className="text-xl font-medium text-gray-900 mb-2">Your wishlist is empty</h2>
+            <p className="text-gray-500 mb-6">
+              Tap the heart on any product to save it for later.
+            </p>
+            <Button asChild>
+              <Link to="/products">Browse products</Link>
+            </Button>
+          </div>
+        ) : (
+          <ul className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+            {wishlistItems.map(({ product, addedAt }) => {
+              const image =
+                product.images?.find((img) => img.isPrimary)?.url || product.images?.[0]?.url;
+              const soldOut = product.stock <= 0;
+
+              return (
+                <li key={product.id} className="p-6 flex flex-col sm:flex-row gap-6">
+                  <Link
+                    to={`/product/${product.id}`}
+                    className="flex-shrink-0 w-24 h-24 border rounded-md overflow-hidden"
+                  >
+                    {image ? (
+                      <img src={image} alt={product.name} className="w-full h-full object-cover" />
+                    ) : (
+                      <div className="w-full h-full bg-gray-100 flex items-center justify-center">
+                        <span className="text-gray-400 text-sm">No image</span>
+                      </div>
+                    )}
+                  </Link>
+
+                  <div className="flex-1">
+                    <div className="flex justify-between gap-4">
+                      <h3 className="text-lg font-medium text-gray-900">
+                        <Link to={`/product/${product.id}`} className="hover:text-brand-600">
+                          {product.name}
+                        </Link>
+                      </h3>
+                      <p className="text-lg font-medium text-gray-900">
+                        {formatPrice(product.price, product.currency)}
+                      </p>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Saved {new Date(addedAt).toLocaleDateString()}
+                    </p>
+                    {soldOut && (
+                      <p className="text-sm font-medium text-red-600 mt-1">Out of stock</p>
+                    )}
+
+                    <div className="mt-4 flex justify-between items-center">
+                      {hasVariants(product) ? (
+                        <Button size="sm" asChild>
+                          <Link to={`/product/${product.id}`}>Choose options</Link>
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          onClick={() => handleMoveToCart(product.id, product.name)}
+                          disabled={soldOut}
+                        >
+                          <ShoppingCart size={16} className="mr-2" />
+                          Move to cart
+                        </Button>
+                      )}
+                      <button
+                        onClick={() => removeFromWishlist(product.id)}
+                        className="text-red-500 hover:text-red-700 flex items-center"
+                        aria-label="Remove from wishlist"
+                      >
+                        <Trash2 size={18} className="mr-1" />
+                        <span>Remove</span>
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Wishlist;
@@ -0,0 +1,423 @@
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { ExternalLink, Pencil, Plus, Trash2, Upload, X } from "lucide-react";
+import AdminLayout from "@/components/AdminLayout";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { Category, useCategories } from "@/contexts/CategoryContext";
+import { getErrorMessage } from "@/api/client";
+import {
+  buildCategoryTree,
+  canMoveCategory,
+  flattenCategoryTree,
+  slugify,
+} from "@/lib/categories";
+
+const NO_PARENT = "none";
+
+const categoryFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60, "Keep names under 60 characters"),
+  slug: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use lowercase letters, numbers and single dashes"),
+  parentId: z.string(),
+  description: z.string().trim().max(500, "Keep descriptions under 500 characters"),
+  sortOrder: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || Number.isInteger(Number(value)), "Enter a whole number"),
+});
+
+type CategoryFormValues = z.infer<typeof categoryFormSchema>;
+
+const toFormValues = (category?: Category): CategoryFormValues => ({
+  name: category?.name ?? "",
+  slug: category?.slug ?? "",
+  parentId: category?.parentId ?? NO_PARENT,
+  description: category?.description ?? "",
+  sortOrder: category?.sortOrder.toString() ?? "",
+});
+
+interface CategoryDialogProps {
+  category: Category | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CategoryDialog = ({ category, open, onOpenChange }: CategoryDialogProps) => {
+  const { toast } = useToast();
+  const { categories, createCategory, updateCategory } = useCategories();
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: toFormValues(category),
+  });
+  // The slug follows the name until the admin edits it by hand
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [image, setImage] = useState<{ file?: File; preview: string } | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(category));
+      setSlugTouched(Boolean(category));
+      setImage(category?.imageUrl ? { preview: category.imageUrl } : null);
+    }
+  }, [open, category, form]);
+
+  const parentOptions = useMemo(
+    () =>
+      flattenCategoryTree(buildCategoryTree(categories)).filter(
+        (option) => !category || canMoveCategory(categories, category.id, option.id)
+      ),
+    [categories, category]
+  );
+
+  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (image?.file) URL.revokeObjectURL(image.preview);
+    setImage({ file, preview: URL.createObjectURL(file) });
+  };
+
+  const removeImage = () => {
+    if (image?.file) URL.revokeObjectURL(image.preview);
+    setImage(null);
+  };
+
+  const onSubmit = async (values: CategoryFormValues) => {
+    const formData = new FormData();
+    formData.append("name", values.name);
+    formData.append("slug", values.slug);
+    // Empty moves the category to the top level
+    formData.append("parentId", values.parentId === NO_PARENT ? "" : values.parentId);
+    formData.append("description", values.description);
+    formData.append("sortOrder", values.sortOrder || "0");
+    if (image?.file) {
+      formData.append("image", image.file);
+    } else if (!image && category?.imageUrl) {
+      formData.append("removeImage", "true");
+    }
+
+    try {
+      const saved = category
+        ? await updateCategory(category.id, formData)
+        : await createCategory(formData);
+      onOpenChange(false);
+      toast({
+        title: category ? "Category updated" : "Category created",
+        description: `${saved.name} is at /category/${saved.slug}.`,
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to save category"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{category ? `Edit ${category.name}` : "New category"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="e.g. Running Shoes"
+                      onChange={(e) => {
+                        field.onChange(e);
+                        if (!slugTouched) form.setValue("slug", slugify(e.target.value));
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="slug"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Slug</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      onChange={(e) => {
+                        setSlugTouched(true);
+                        field.onChange(e);
+                      }}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    The page lives at /category/{field.value || "…"}. Changing it breaks old links.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="parentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parent</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                        {parentOptions.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            <span style={{ paddingLeft: `${option.depth}rem` }}>{option.name}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sortOrder"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sort order</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="1" placeholder="0" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} placeholder="Shown at the top of the category page" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="space-y-2">
+              <Label>Image</Label>
+              {image ? (
+                <div className="relative rounded-md overflow-hidden border h-32 w-48">
+                  <img src={image.preview} alt="Category" className="w-full h-full object-cover" />
+                  <button
+                    type="button"
+                    onClick={removeImage}
+                    className="absolute top-1 right-1 bg-white rounded-full p-1 shadow-sm hover:bg-gray-100"
+                    aria-label="Remove image"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ) : (
+                <label className="border-2 border-dashed border-gray-300 rounded-md flex flex-col items-center justify-center h-32 w-48 cursor-pointer hover:bg-gray-50">
+                  <Upload size={24} className="text-gray-400" />
+                  <span className="mt-2 text-sm text-gray-500">Upload Image</span>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={handleImageChange}
+                  />
+                </label>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : "Save category"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const Categories = () => {
+  const { toast } = useToast();
+  const { categories, loading, error, deleteCategory } = useCategories();
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const rows = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+
+  const openDialog = (category: Category | null) => {
+    setEditing(category);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Delete ${category.name}? Its page at /category/${category.slug} will stop working.`)) {
+      return;
+    }
+
+    try {
+      await deleteCategory(category.id);
+      toast({ title: "Category deleted", description: `${category.name} has been removed.` });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to delete category"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Categories</h1>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New category
+        </Button>
+      </div>
+
+      {error ? (
+        <div className="p-4 text-red-700 bg-red-100 rounded-md">
+          Error loading categories: {error}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead>Products</TableHead>
+                <TableHead>Sort order</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((category) => (
+                <TableRow key={category.id}>
+                  <TableCell>
+                    <div
+                      className="flex items-center gap-3"
+                      style={{ paddingLeft: `${category.depth * 1.5}rem` }}
+                    >
+                      {category.imageUrl && (
+                        <img
+                          src={category.imageUrl}
+                          alt=""
+                          className="h-8 w-8 rounded object-cover"
+                        />
+                      )}
+                      <span className="font-medium">{category.name}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm text-gray-500">{category.slug}</TableCell>
+                  <TableCell>{category.productCount ?? "—"}</TableCell>
+                  <TableCell>{category.sortOrder}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" asChild>
+                      <Link
+                        to={`/category/${category.slug}`}
+                        aria-label={`View ${category.name} in the store`}
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openDialog(category)}
+                      aria-label={`Edit ${category.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(category)}
+                      aria-label={`Delete ${category.name}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-10 text-gray-500">
+                    No categories yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <CategoryDialog category={editing} open={dialogOpen} onOpenChange={setDialogOpen} />
+    </AdminLayout>
+  );
+};
+
+export default Categories;
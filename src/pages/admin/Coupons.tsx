@@ -0,0 +1,503 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import AdminLayout from "@/components/AdminLayout";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { useCategories } from "@/contexts/CategoryContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import * as couponsApi from "@/api/coupons";
+import { COUPON_TYPES, Coupon, CouponInput, normalizeCouponCode } from "@/api/coupons";
+import { getErrorMessage } from "@/api/client";
+import { buildCategoryTree, flattenCategoryTree, getCategoryLabel } from "@/lib/categories";
+import { describeCoupon } from "@/lib/coupons";
+import { formatMoney } from "@/lib/money";
+
+const COUPON_TYPE_LABELS: Record<Coupon["type"], string> = {
+  percentage: "Percentage off",
+  fixed: "Fixed amount off",
+  free_shipping: "Free shipping",
+};
+
+// Optional numeric inputs stay strings in the form so they can be left blank
+const optionalNumber = z
+  .string()
+  .trim()
+  .refine((value) => value === "" || Number(value) > 0, "Must be greater than zero");
+
+const couponFormSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9_-]{3,32}$/, "Use 3–32 letters, numbers, dashes or underscores"),
+    type: z.enum(COUPON_TYPES),
+    value: z.string().trim(),
+    minSubtotal: optionalNumber,
+    usageLimit: optionalNumber,
+    expiresAt: z.string(),
+    categoryIds: z.array(z.string()),
+    active: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.type === "free_shipping") return;
+    const value = Number(values.value);
+    if (!(value > 0) || (values.type === "percentage" && value > 100)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["value"],
+        message: values.type === "percentage" ? "Enter 1 to 100" : "Enter an amount",
+      });
+    }
+  });
+
+type CouponFormValues = z.infer<typeof couponFormSchema>;
+
+const toFormValues = (coupon?: Coupon): CouponFormValues => ({
+  code: coupon?.code ?? "",
+  type: coupon?.type ?? "percentage",
+  value: coupon && coupon.type !== "free_shipping" ? coupon.value.toString() : "",
+  minSubtotal: coupon?.minSubtotal?.toString() ?? "",
+  usageLimit: coupon?.usageLimit?.toString() ?? "",
+  // <input type="date"> works in yyyy-mm-dd
+  expiresAt: coupon?.expiresAt?.slice(0, 10) ?? "",
+  categoryIds: coupon?.categoryIds ?? [],
+  active: coupon?.active ?? true,
+});
+
+const toCouponInput = (values: CouponFormValues): CouponInput => ({
+  code: normalizeCouponCode(values.code),
+  type: values.type,
+  value: values.type === "free_shipping" ? 0 : Number(values.value),
+  minSubtotal: values.minSubtotal ? Number(values.minSubtotal) : undefined,
+  usageLimit: values.usageLimit ? Number(values.usageLimit) : undefined,
+  // Codes stay valid through the end of the chosen day
+  expiresAt: values.expiresAt
+    ? new Date(`${values.expiresAt}T23:59:59`).toISOString()
+    : undefined,
+  categoryIds: values.categoryIds,
+  active: values.active,
+});
+
+interface CouponDialogProps {
+  coupon: Coupon | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (coupon: Coupon) => void;
+}
+
+const CouponDialog = ({ coupon, open, onOpenChange, onSaved }: CouponDialogProps) => {
+  const { toast } = useToast();
+  const { settings } = useStoreSettings();
+  const { categories } = useCategories();
+  const categoryOptions = flattenCategoryTree(buildCategoryTree(categories));
+  const form = useForm<CouponFormValues>({
+    resolver: zodResolver(couponFormSchema),
+    defaultValues: toFormValues(coupon),
+  });
+  const type = form.watch("type");
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(coupon));
+  }, [open, coupon, form]);
+
+  const onSubmit = async (values: CouponFormValues) => {
+    try {
+      const input = toCouponInput(values);
+      const saved = coupon
+        ? await couponsApi.updateCoupon(coupon.id, input)
+        : await couponsApi.createCoupon(input);
+      onSaved(saved);
+      onOpenChange(false);
+      toast({
+        title: coupon ? "Coupon updated" : "Coupon created",
+        description: `${saved.code} is ${saved.active ? "active" : "inactive"}.`,
+      });
+    } catch (err) {
+      console.error("Error saving coupon:", err);
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to save coupon"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{coupon ? `Edit ${coupon.code}` : "New coupon"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="uppercase" placeholder="e.g. WELCOME10" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {COUPON_TYPES.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {COUPON_TYPE_LABELS[option]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {type !== "free_shipping" && (
+                <FormField
+                  control={form.control}
+                  name="value"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {type === "percentage" ? "Percent off" : `Amount (${settings.defaultCurrency})`}
+                      </FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" step="any" min="0" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="minSubtotal"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum subtotal</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="any" min="0" placeholder="None" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="usageLimit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Usage limit</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" step="1" min="1" placeholder="Unlimited" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="expiresAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expires on</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="date" />
+                  </FormControl>
+                  <FormDescription>Leave blank for a code that never expires.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="categoryIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categories</FormLabel>
+                  <FormDescription>
+                    Limit the discount to items filed directly in these categories; pick
+                    subcategories separately. None selected applies to every item.
+                  </FormDescription>
+                  <div className="grid grid-cols-2 gap-2">
+                    {categoryOptions.map((category) => (
+                      <label
+                        key={category.id}
+                        className="flex items-center gap-2 text-sm"
+                        style={{ paddingLeft: `${category.depth}rem` }}
+                      >
+                        <Checkbox
+                          checked={field.value.includes(category.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...field.value, category.id]
+                                : field.value.filter((value) => value !== category.id)
+                            )
+                          }
+                        />
+                        {category.name}
+                      </label>
+                    ))}
+                  </div>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <FormLabel>Active</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : "Save coupon"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const Coupons = () => {
+  const { toast } = useToast();
+  const { settings } = useStoreSettings();
+  const { categories } = useCategories();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Coupon | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    const fetchCoupons = async () => {
+      try {
+        setCoupons(await couponsApi.getCoupons());
+      } catch (err) {
+        console.error("Error fetching coupons:", err);
+        setError(getErrorMessage(err, "Failed to load coupons"));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCoupons();
+  }, []);
+
+  const openDialog = (coupon: Coupon | null) => {
+    setEditing(coupon);
+    setDialogOpen(true);
+  };
+
+  const handleSaved = (saved: Coupon) => {
+    setCoupons((prev) =>
+      prev.some((coupon) => coupon.id === saved.id)
+        ? prev.map((coupon) => (coupon.id === saved.id ? saved : coupon))
+        : [saved, ...prev]
+    );
+  };
+
+  const handleToggleActive = async (coupon: Coupon, active: boolean) => {
+    try {
+      handleSaved(await couponsApi.updateCoupon(coupon.id, { active }));
+    } catch (err) {
+      console.error("Error updating coupon:", err);
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to update coupon"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}? Shoppers will no longer be able to use it.`)) {
+      return;
+    }
+
+    try {
+      await couponsApi.deleteCoupon(coupon.id);
+      setCoupons((prev) => prev.filter((existing) => existing.id !== coupon.id));
+      toast({ title: "Coupon deleted", description: `${coupon.code} has been removed.` });
+    } catch (err) {
+      console.error("Error deleting coupon:", err);
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to delete coupon"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Coupons</h1>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New coupon
+        </Button>
+      </div>
+
+      {error ? (
+        <div className="p-4 text-red-700 bg-red-100 rounded-md">
+          Error loading coupons: {error}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Conditions</TableHead>
+                <TableHead>Used</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {coupons.map((coupon) => {
+                const expired = coupon.expiresAt && new Date(coupon.expiresAt) < new Date();
+                return (
+                  <TableRow key={coupon.id}>
+                    <TableCell className="font-mono font-medium">{coupon.code}</TableCell>
+                    <TableCell>{describeCoupon(coupon, settings.defaultCurrency)}</TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {[
+                        coupon.minSubtotal &&
+                          `Min. ${formatMoney(coupon.minSubtotal, settings.defaultCurrency)}`,
+                        coupon.categoryIds.length > 0 &&
+                          coupon.categoryIds
+                            .map((id) => getCategoryLabel(categories, id) || "Deleted category")
+                            .join(", "),
+                      ]
+                        .filter(Boolean)
+                        .join(" · ") || "—"}
+                    </TableCell>
+                    <TableCell>
+                      {coupon.usageCount}
+                      {coupon.usageLimit ? ` / ${coupon.usageLimit}` : ""}
+                    </TableCell>
+                    <TableCell className={expired ? "text-red-600" : undefined}>
+                      {coupon.expiresAt ? new Date(coupon.expiresAt).toLocaleDateString() : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={coupon.active}
+                        onCheckedChange={(active) => handleToggleActive(coupon, active)}
+                        aria-label={`Toggle ${coupon.code}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openDialog(coupon)}
+                        aria-label={`Edit ${coupon.code}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(coupon)}
+                        aria-label={`Delete ${coupon.code}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {!loading && coupons.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-10 text-gray-500">
+                    No coupons yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <CouponDialog
+        coupon={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={handleSaved}
+      />
+    </AdminLayout>
+  );
+};
+
+export default Coupons;
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, ShieldAlert, ShieldOff } from "lucide-react";
+import AdminLayout from "@/components/AdminLayout";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { Order } from "@/contexts/OrderContext";
+import * as customersApi from "@/api/customers";
+import { Customer } from "@/api/customers";
+import { getErrorMessage } from "@/api/client";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import { convertMoney, formatMoney } from "@/lib/money";
+
+const CustomerDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { settings } = useStoreSettings();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingRole, setUpdatingRole] = useState(false);
+
+  useEffect(() => {
+    const fetchCustomer = async () => {
+      try {
+        const result = await customersApi.getCustomer(id);
+        setCustomer(result.customer);
+        setOrders(result.orders);
+      } catch (err) {
+        console.error("Error fetching customer:", err);
+        toast({
+          title: "Error",
+          description: getErrorMessage(err, "Failed to load customer"),
+          variant: "destructive",
+        });
+        navigate("/admin/customers");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (id) {
+      fetchCustomer();
+    } else {
+      navigate("/admin/customers");
+    }
+  }, [id, navigate, toast]);
+
+  const handleRoleChange = async () => {
+    const role = customer.role === "admin" ? "client" : "admin";
+    const action = role === "admin" ? "promote" : "demote";
+    if (!confirm(`Are you sure you want to ${action} ${customer.name || customer.email}?`)) {
+      return;
+    }
+
+    setUpdatingRole(true);
+    try {
+      setCustomer(await customersApi.updateCustomerRole(customer.id, role));
+      toast({
+        title: "Role updated",
+        description: `${customer.name || customer.email} is now ${
+          role === "admin" ? "an administrator" : "a customer"
+        }.`,
+      });
+    } catch (err) {
+      console.error("Error updating role:", err);
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to update role"),
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingRole(false);
+    }
+  };
+
+  if (loading || !customer) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  // Cancelled orders never brought in revenue
+  const billableOrders = orders.filter((order) => order.status !== "cancelled");
+  // Totals are reported in the store currency; orders without a rate are left out
+  const { defaultCurrency, exchangeRates } = settings;
+  const lifetimeValue = billableOrders.reduce(
+    (total, order) =>
+      total +
+      (convertMoney(
+        order.total,
+        order.currency ?? defaultCurrency,
+        defaultCurrency,
+        defaultCurrency,
+        exchangeRates
+      ) ?? 0),
+    0
+  );
+  const averageOrderValue = billableOrders.length ? lifetimeValue / billableOrders.length : 0;
+  const isSelf = customer.id === user?.id;
+
+  return (
+    <AdminLayout>
+      <div className="mb-6 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/admin/customers">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">{customer.name || customer.email}</h1>
+            <p className="text-sm text-gray-500">{customer.email}</p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleRoleChange}
+          disabled={updatingRole || isSelf}
+          title={isSelf ? "You cannot change your own role" : undefined}
+        >
+          {customer.role === "admin" ? (
+            <>
+              <ShieldOff className="mr-2 h-4 w-4" /> Demote to customer
+            </>
+          ) : (
+            <>
+              <ShieldAlert className="mr-2 h-4 w-4" /> Promote to admin
+            </>
+          )}
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3 mb-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Lifetime value</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatMoney(lifetimeValue, defaultCurrency)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{orders.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Average order</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatMoney(averageOrderValue, defaultCurrency)}</div>
+            {customer.createdAt && (
+              <p className="text-xs text-gray-500">
+                Customer since {new Date(customer.createdAt).toLocaleDateString()}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <h2 className="text-xl font-bold mb-4">Order history</h2>
+      <div className="bg-white rounded-lg shadow">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Total</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orders.map((order) => (
+              <TableRow
+                key={order.id}
+                className="cursor-pointer"
+                onClick={() => navigate(`/admin/orders/${order.id}`)}
+              >
+                <TableCell className="font-medium">#{order.orderNumber}</TableCell>
+                <TableCell>{new Date(order.createdAt).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {order.items.reduce((total, item) => total + item.quantity, 0)}
+                </TableCell>
+                <TableCell>
+                  {formatMoney(order.total, order.currency ?? defaultCurrency)}
+                </TableCell>
+                <TableCell>
+                  <OrderStatusBadge status={order.status} />
+                </TableCell>
+              </TableRow>
+            ))}
+            {orders.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-10 text-gray-500">
+                  This customer has not placed any orders yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default CustomerDetail;
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Search } from "lucide-react";
+import AdminLayout from "@/components/AdminLayout";
+import SortIcon from "@/components/SortIcon";
+import TablePagination from "@/components/TablePagination";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import * as customersApi from "@/api/customers";
+import { Customer, CustomerSortField } from "@/api/customers";
+import { getErrorMessage } from "@/api/client";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import { formatMoney } from "@/lib/money";
+import { useDebouncedSearch } from "@/hooks/use-debounced-search";
+
+const PAGE_SIZE = 20;
+
+const columns: { field: CustomerSortField; label: string }[] = [
+  { field: "name", label: "Name" },
+  { field: "email", label: "Email" },
+  { field: "createdAt", label: "Joined" },
+  { field: "lifetimeValue", label: "Lifetime value" },
+];
+
+const Customers = () => {
+  const navigate = useNavigate();
+  const { settings } = useStoreSettings();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  // A new search starts from the first page
+  const { searchTerm, setSearchTerm, search } = useDebouncedSearch(() => setPage(1));
+  const [sortBy, setSortBy] = useState<CustomerSortField>("createdAt");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Set when a newer request replaces this one, so a slow response can't
+    // overwrite the list
+    let cancelled = false;
+
+    const fetchCustomers = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await customersApi.getCustomers({
+          page,
+          limit: PAGE_SIZE,
+          search: search || undefined,
+          sortBy,
+          sortOrder,
+        });
+        if (cancelled) return;
+        setCustomers(result.customers);
+        setTotal(result.total);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Error fetching customers:", err);
+        setError(getErrorMessage(err, "Failed to load customers"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchCustomers();
+    return () => {
+      cancelled = true;
+    };
+  }, [page, search, sortBy, sortOrder]);
+
+  const handleSort = (field: CustomerSortField) => {
+    if (field === sortBy) {
+      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(field);
+      setSortOrder("asc");
+    }
+    setPage(1);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="mb-6 flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+        <h1 className="text-2xl font-bold">Customers</h1>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search name or email..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9 md:w-72"
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 text-red-700 bg-red-100 rounded-md">
+          Error loading customers: {error}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {columns.map(({ field, label }) => (
+                  <TableHead key={field}>
+                    <button
+                      type="button"
+                      className="flex items-center font-medium"
+                      onClick={() => handleSort(field)}
+                    >
+                      {label}
+                      <SortIcon active={field === sortBy} order={sortOrder} />
+                    </button>
+                  </TableHead>
+                ))}
+                <TableHead>Orders</TableHead>
+                <TableHead>Role</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {customers.map((customer) => (
+                <TableRow
+                  key={customer.id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/admin/customers/${customer.id}`)}
+                >
+                  <TableCell className="font-medium">{customer.name || "—"}</TableCell>
+                  <TableCell>{customer.email}</TableCell>
+                  <TableCell>
+                    {customer.createdAt
+                      ? new Date(customer.createdAt).toLocaleDateString()
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {formatMoney(customer.lifetimeValue ?? 0, settings.defaultCurrency)}
+                  </TableCell>
+                  <TableCell>{customer.orderCount ?? 0}</TableCell>
+                  <TableCell>
+                    <span
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        customer.role === "admin"
+                          ? "bg-amber-100 text-amber-800"
+                          : "bg-gray-100 text-gray-800"
+                      }`}
+                    >
+                      {customer.role === "admin" ? "Admin" : "Customer"}
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && customers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-10 text-gray-500">
+                    No customers found.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <TablePagination
+        page={page}
+        pageCount={Math.ceil(total / PAGE_SIZE)}
+        onPageChange={setPage}
+      />
+    </AdminLayout>
+  );
+};
+
+export default Customers;
@@ -1,84 +1,75 @@
 import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Package, ShoppingBag, Users, Plus, Edit, Trash2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Package, ShoppingBag, Users, Plus, Upload, Download } from "lucide-react";
 import AdminLayout from "@/components/AdminLayout";
+import ProductDataTable from "@/components/ProductDataTable";
+import ProductImportDialog from "@/components/ProductImportDialog";
 import { useProducts } from "@/contexts/ProductContext";
+import { useOrders } from "@/contexts/OrderContext";
 import { useToast } from "@/components/ui/use-toast";
-import { useAuth } from "@/contexts/AuthContext";
-import { config } from "@/config";
+import { getCustomers } from "@/api/customers";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import { downloadFile } from "@/lib/csv";
+import { productsToCsv, productsToJson } from "@/lib/productImport";
 
 const Dashboard = () => {
-  const navigate = useNavigate();
   const { products, loading, error, fetchProducts } = useProducts();
+  const { allOrders, fetchAllOrders } = useOrders();
+  const { settings } = useStoreSettings();
   const { toast } = useToast();
-  const { getToken } = useAuth();
   const [stats, setStats] = useState({
-    totalProducts: 0,
-    totalOrders: 0,
     totalCustomers: 0
   });
+  const [importOpen, setImportOpen] = useState(false);
+  const [tableRefreshKey, setTableRefreshKey] = useState(0);
 
   useEffect(() => {
-    fetchProducts();
-    fetchStats();
-  }, []);
-
-  const fetchStats = async () => {
-    try {
-      const token = await getToken();
-      // In a real app, you would fetch these from your API
-      setStats({
-        totalProducts: products.length,
-        totalOrders: 25, // Replace with actual API call
-        totalCustomers: 12 // Replace with actual API call
-      });
-    } catch (err) {
-      console.error("Error fetching stats:", err);
-      toast({
-        title: "Error",
-        description: "Failed to load dashboard statistics",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const handleEditProduct = (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    navigate(`/admin/edit-product/${id}`);
-  };
-
-  const handleDeleteProduct = async (id: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (confirm("Are you sure you want to delete this product?")) {
+    const fetchStats = async () => {
       try {
-        const token = await getToken();
-        await fetch(`${config.apiBaseUrl}/item/delete-products/${id}`, {
-          method: "DELETE",
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-
-        // Refresh the product list
-        await fetchProducts();
-        
-        toast({
-          title: "Success",
-          description: "Product deleted successfully",
-        });
+        const { total: totalCustomers } = await getCustomers({ page: 1, limit: 1 });
+        setStats({ totalCustomers });
       } catch (err) {
-        console.error("Error deleting product:", err);
+        console.error("Error fetching stats:", err);
         toast({
           title: "Error",
-          description: "Failed to delete product",
+          description: "Failed to load dashboard statistics",
           variant: "destructive",
         });
       }
+    };
+
+    fetchAllOrders();
+    fetchStats();
+  }, [fetchAllOrders, toast]);
+
+  const pendingOrders = allOrders.filter((order) => order.status === "pending").length;
+
+  const handleExport = (format: "csv" | "json") => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === "csv") {
+      downloadFile(
+        productsToCsv(products, settings.defaultCurrency),
+        `products-${date}.csv`,
+        "text/csv;charset=utf-8"
+      );
+    } else {
+      downloadFile(productsToJson(products), `products-${date}.json`, "application/json");
     }
   };
 
+  const handleImported = () => {
+    setTableRefreshKey((key) => key + 1);
+    fetchProducts().catch((err) => console.error("Error refreshing products:", err));
+  };
+
   if (loading && products.length === 0) {
     return (
       <AdminLayout>
@@ -103,13 +94,35 @@ const Dashboard = () => {
     <AdminLayout>
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-2xl font-bold">Dashboard</h1>
-        <Button asChild>
-          <Link to="/admin/add-product">
-            <Plus className="mr-2 h-4 w-4" /> Add New Product
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" /> Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={products.length === 0}>
+                <Download className="mr-2 h-4 w-4" /> Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport("csv")}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport("json")}>JSON</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button asChild>
+            <Link to="/admin/add-product">
+              <Plus className="mr-2 h-4 w-4" /> Add New Product
+            </Link>
+          </Button>
+        </div>
       </div>
 
+      <ProductImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={handleImported}
+      />
+
       <div className="grid gap-4 md:grid-cols-3 mb-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -117,7 +130,7 @@ const Dashboard = () => {
             <Package className="h-4 w-4 text-gray-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalProducts}</div>
+            <div className="text-2xl font-bold">{products.length}</div>
             <p className="text-xs text-gray-500">+2 from last week</p>
           </CardContent>
         </Card>
@@ -127,8 +140,10 @@ const Dashboard = () => {
             <ShoppingBag className="h-4 w-4 text-gray-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalOrders}</div>
-            <p className="text-xs text-gray-500">+5 from last week</p>
+            <div className="text-2xl font-bold">{allOrders.length}</div>
+            <Link to="/admin/orders" className="text-xs text-gray-500 hover:text-brand-600">
+              {pendingOrders} pending
+            </Link>
           </CardContent>
         </Card>
         <Card>
@@ -138,96 +153,15 @@ const Dashboard = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalCustomers}</div>
-            <p className="text-xs text-gray-500">+3 from last week</p>
+            <Link to="/admin/customers" className="text-xs text-gray-500 hover:text-brand-600">
+              View customers
+            </Link>
           </CardContent>
         </Card>
       </div>
 
       <h2 className="text-xl font-bold mb-4">Products</h2>
-      <div className="overflow-x-auto bg-white rounded-lg shadow">
-        <table className="w-full whitespace-nowrap">
-          <thead>
-            <tr className="text-left font-medium border-b">
-              <th className="px-6 py-3">Product</th>
-              <th className="px-6 py-3">Price</th>
-              <th className="px-6 py-3">Category</th>
-              <th className="px-6 py-3">Stock</th>
-              <th className="px-6 py-3 text-right">Actions</th>
-            </tr>
-          </thead>
-          <tbody>
-            {products.map((product) => {
-              const primaryImage = product.images?.find(img => img.isPrimary)?.url || 
-                                 product.images?.[0]?.url;
-              return (
-                <tr 
-                  key={product.id} 
-                  className="border-b hover:bg-gray-50 cursor-pointer"
-                  onClick={() => window.open(`/product/${product.id}`, '_blank')}
-                >
-                  <td className="px-6 py-4">
-                    <div className="flex items-center space-x-3">
-                      <div className="flex-shrink-0 h-10 w-10">
-                        {primaryImage ? (
-                          <img 
-                            className="h-10 w-10 rounded-md object-cover" 
-                            src={primaryImage} 
-                            alt={product.name} 
-                          />
-                        ) : (
-                          <div className="h-10 w-10 rounded-md bg-gray-200 flex items-center justify-center">
-                            <Package className="h-5 w-5 text-gray-400" />
-                          </div>
-                        )}
-                      </div>
-                      <div>
-                        <div className="font-medium text-gray-900">{product.name}</div>
-                        <div className="text-gray-500 text-sm truncate max-w-xs">
-                          {product.description}
-                        </div>
-                      </div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    ${typeof product.price === 'string' ? 
-                      parseFloat(product.price).toFixed(2) : 
-                      product.price.toFixed(2)}
-                  </td>
-                  <td className="px-6 py-4">{product.category || 'Uncategorized'}</td>
-                  <td className="px-6 py-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      product.stock > 10 ? 'bg-green-100 text-green-800' : 
-                      product.stock > 0 ? 'bg-yellow-100 text-yellow-800' : 
-                      'bg-red-100 text-red-800'
-                    }`}>
-                      {product.stock > 0 ? `${product.stock} in stock` : 'Out of stock'}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 text-right">
-                    <div className="flex justify-end space-x-2" onClick={(e) => e.stopPropagation()}>
-                      <Button 
-                        variant="ghost" 
-                        size="icon"
-                        onClick={(e) => handleEditProduct(product.id, e)}
-                      >
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button 
-                        variant="ghost" 
-                        size="icon"
-                        className="text-red-600 hover:text-red-900"
-                        onClick={(e) => handleDeleteProduct(product.id, e)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
-      </div>
+      <ProductDataTable refreshKey={tableRefreshKey} />
     </AdminLayout>
   );
 };
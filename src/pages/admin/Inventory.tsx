@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import AdminLayout from "@/components/AdminLayout";
+import AdjustStockDialog from "@/components/AdjustStockDialog";
+import StockBadge from "@/components/StockBadge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Product, useProducts } from "@/contexts/ProductContext";
+import { getLowStockProducts, getLowStockThreshold } from "@/lib/inventory";
+import { describeVariant } from "@/lib/variants";
+
+const getSoldOutVariants = (product: Product) =>
+  product.variants
+    .filter((variant) => variant.stock <= 0)
+    .map((variant) => describeVariant(product, variant));
+
+const Inventory = () => {
+  const { products, loading, error } = useProducts();
+  const [adjusting, setAdjusting] = useState<Product | null>(null);
+  const lowStock = getLowStockProducts(products);
+
+  return (
+    <AdminLayout>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Low stock</h1>
+        <p className="text-sm text-gray-500">
+          Products at or below their low stock alert, out of stock first.
+        </p>
+      </div>
+
+      {error && <div className="mb-4 p-4 text-sm text-red-700 bg-red-100 rounded-md">{error}</div>}
+
+      <div className="bg-white rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>Stock</TableHead>
+              <TableHead>Alert at</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                  Loading products...
+                </TableCell>
+              </TableRow>
+            ) : lowStock.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                  Every product is above its low stock alert.
+                </TableCell>
+              </TableRow>
+            ) : (
+              lowStock.map((product) => (
+                <TableRow key={product.id}>
+                  <TableCell>
+                    <p className="font-medium">{product.name}</p>
+                    {getSoldOutVariants(product).length > 0 && (
+                      <p className="text-xs text-gray-500">
+                        Sold out: {getSoldOutVariants(product).join(", ")}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{product.category}</TableCell>
+                  <TableCell>
+                    <StockBadge stock={product.stock} threshold={getLowStockThreshold(product)} />
+                  </TableCell>
+                  <TableCell>{getLowStockThreshold(product)}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => setAdjusting(product)}>
+                      Adjust stock
+                    </Button>
+                    <Button size="sm" variant="ghost" asChild>
+                      <Link to={`/admin/edit-product/${product.id}`}>Edit</Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AdjustStockDialog
+        product={adjusting}
+        onOpenChange={(open) => !open && setAdjusting(null)}
+      />
+    </AdminLayout>
+  );
+};
+
+export default Inventory;
@@ -0,0 +1,305 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import AdminLayout from "@/components/AdminLayout";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Order, OrderStatus, useOrders } from "@/contexts/OrderContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import * as ordersApi from "@/api/orders";
+import { ORDER_STATUS_TRANSITIONS } from "@/api/orders";
+import { getErrorMessage } from "@/api/client";
+import { formatMoney } from "@/lib/money";
+import { DELIVERY_OPTIONS } from "@/lib/checkout";
+import { getLineId } from "@/lib/variants";
+import {
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  getPaymentProvider,
+  intentFromOrder,
+} from "@/lib/payments";
+
+const OrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { updateOrderStatus, recordPayment } = useOrders();
+  const { settings } = useStoreSettings();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const currency = order?.currency ?? settings.defaultCurrency;
+
+  useEffect(() => {
+    const fetchOrder = async () => {
+      try {
+        setOrder(await ordersApi.getOrder(id));
+      } catch (err) {
+        console.error("Error fetching order:", err);
+        toast({
+          title: "Error",
+          description: getErrorMessage(err, "Failed to load order"),
+          variant: "destructive",
+        });
+        navigate("/admin/orders");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (id) {
+      fetchOrder();
+    } else {
+      navigate("/admin/orders");
+    }
+  }, [id, navigate, toast]);
+
+  const handleStatusChange = async (status: OrderStatus) => {
+    if (status === "cancelled" && !confirm("Are you sure you want to cancel this order?")) {
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      setOrder(await updateOrderStatus(order.id, status));
+      toast({
+        title: "Order updated",
+        description: `Order #${order.orderNumber} is now ${status}.`,
+      });
+    } catch (err) {
+      console.error("Error updating order status:", err);
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to update order status"),
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleRefund = async () => {
+    const provider = getPaymentProvider(order.paymentMethod, settings);
+    const intent = intentFromOrder(order);
+    if (!provider || !intent) return;
+    if (!confirm(`Refund ${formatMoney(order.total, currency)} for this order?`)) return;
+
+    setUpdating(true);
+    try {
+      const refunded = await provider.refund(intent);
+      setOrder(await recordPayment(order.id, refunded));
+      toast({
+        title: "Payment refunded",
+        description: `Order #${order.orderNumber} has been refunded.`,
+      });
+    } catch (err) {
+      console.error("Error refunding payment:", err);
+      toast({
+        title: "Error",
+        description: getErrorMessage(err, "Failed to refund payment"),
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading || !order) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const nextStatuses = ORDER_STATUS_TRANSITIONS[order.status];
+  const canRefund =
+    order.paymentStatus === "succeeded" &&
+    Boolean(order.paymentMethod && getPaymentProvider(order.paymentMethod, settings));
+
+  return (
+    <AdminLayout>
+      <div className="mb-6 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/admin/orders">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Order #{order.orderNumber}</h1>
+          <OrderStatusBadge status={order.status} />
+        </div>
+        <div className="flex gap-2">
+          {nextStatuses.map((status) => (
+            <Button
+              key={status}
+              variant={status === "cancelled" ? "destructive" : "default"}
+              disabled={updating}
+              onClick={() => handleStatusChange(status)}
+              className="capitalize"
+            >
+              Mark {status}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Quantity</TableHead>
+                  <TableHead className="text-right">Line total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.items.map((item) => (
+                  <TableRow key={getLineId(item.productId, item.variantId)}>
+                    <TableCell>
+                      <div className="flex items-center space-x-3">
+                        {item.imageUrl && (
+                          <img
+                            src={item.imageUrl}
+                            alt={item.name}
+                            className="h-10 w-10 rounded-md object-cover"
+                          />
+                        )}
+                        <div>
+                          <span className="font-medium">{item.name}</span>
+                          {(item.variantName || item.sku) && (
+                            <p className="text-sm text-gray-500">
+                              {[item.variantName, item.sku && `SKU ${item.sku}`]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatMoney(item.price, currency)}</TableCell>
+                    <TableCell>{item.quantity}</TableCell>
+                    <TableCell className="text-right">
+                      {formatMoney(item.price * item.quantity, currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="mt-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>{formatMoney(order.subtotal, currency)}</span>
+              </div>
+              {order.shippingFee !== undefined && (
+                <div className="flex justify-between">
+                  <span>Shipping</span>
+                  <span>{formatMoney(order.shippingFee, currency)}</span>
+                </div>
+              )}
+              {order.discount > 0 && (
+                <div className="flex justify-between text-green-700">
+                  <span>Discount{order.couponCode && ` (${order.couponCode})`}</span>
+                  <span>−{formatMoney(order.discount, currency)}</span>
+                </div>
+              )}
+              {order.tax > 0 && (
+                <div className="flex justify-between">
+                  <span>
+                    {order.taxInclusive ? "Includes tax" : "Tax"}
+                    {order.taxRate ? ` (${order.taxRate}%)` : ""}
+                  </span>
+                  <span>{formatMoney(order.tax, currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold text-base">
+                <span>Total</span>
+                <span>{formatMoney(order.total, currency)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="h-fit">
+          <CardHeader>
+            <CardTitle>Customer</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p className="font-medium">
+              {order.contact?.fullName || order.customerName || "Unknown customer"}
+            </p>
+            {(order.contact?.email || order.customerEmail) && (
+              <p className="text-gray-500">{order.contact?.email || order.customerEmail}</p>
+            )}
+            {order.contact?.phone && <p className="text-gray-500">{order.contact.phone}</p>}
+            {order.deliveryMethod && (
+              <div className="border-t pt-2 mt-2">
+                <p className="font-medium">
+                  {DELIVERY_OPTIONS.find((option) => option.value === order.deliveryMethod)?.label}
+                </p>
+                {order.shippingAddress && (
+                  <p className="text-gray-500">
+                    {[
+                      order.shippingAddress.line1,
+                      order.shippingAddress.line2,
+                      order.shippingAddress.city,
+                      order.shippingAddress.region,
+                      order.shippingAddress.postalCode,
+                      order.shippingAddress.country,
+                    ]
+                      .filter(Boolean)
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+            {order.paymentMethod && (
+              <div className="border-t pt-2 mt-2">
+                <p className="font-medium">{PAYMENT_METHOD_LABELS[order.paymentMethod]}</p>
+                <p className="text-gray-500">
+                  {PAYMENT_STATUS_LABELS[order.paymentStatus ?? "pending"]}
+                  {order.paymentReference && ` · ${order.paymentReference}`}
+                </p>
+                {canRefund && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    disabled={updating}
+                    onClick={handleRefund}
+                  >
+                    Refund payment
+                  </Button>
+                )}
+              </div>
+            )}
+            <div className="border-t pt-2 mt-2 text-gray-500">
+              <p>Placed {new Date(order.createdAt).toLocaleString()}</p>
+              {order.updatedAt && <p>Updated {new Date(order.updatedAt).toLocaleString()}</p>}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default OrderDetail;
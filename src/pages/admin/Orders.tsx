@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Search } from "lucide-react";
+import AdminLayout from "@/components/AdminLayout";
+import OrderStatusBadge from "@/components/OrderStatusBadge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useOrders } from "@/contexts/OrderContext";
+import { useStoreSettings } from "@/contexts/StoreSettingsContext";
+import { ORDER_STATUSES } from "@/api/orders";
+import { formatMoney } from "@/lib/money";
+
+const Orders = () => {
+  const navigate = useNavigate();
+  const { allOrders, allOrdersLoading: loading, error, fetchAllOrders } = useOrders();
+  const { settings } = useStoreSettings();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [searchTerm, setSearchTerm] = useState("");
+
+  useEffect(() => {
+    fetchAllOrders();
+  }, [fetchAllOrders]);
+
+  const search = searchTerm.trim().toLowerCase();
+  const filteredOrders = allOrders.filter((order) => {
+    if (statusFilter !== "all" && order.status !== statusFilter) return false;
+    if (!search) return true;
+    return [order.orderNumber, order.customerName, order.customerEmail]
+      .some((value) => value?.toLowerCase().includes(search));
+  });
+
+  if (loading && allOrders.length === 0) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-gray-900"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error) {
+    return (
+      <AdminLayout>
+        <div className="p-4 text-red-700 bg-red-100 rounded-md">
+          Error loading orders: {error}
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="mb-6 flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+        <h1 className="text-2xl font-bold">Orders</h1>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search order # or customer..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9 sm:w-64"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="sm:w-[160px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {ORDER_STATUSES.map((status) => (
+                <SelectItem key={status} value={status} className="capitalize">
+                  {status}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Items</TableHead>
+              <TableHead>Total</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredOrders.map((order) => (
+              <TableRow
+                key={order.id}
+                className="cursor-pointer"
+                onClick={() => navigate(`/admin/orders/${order.id}`)}
+              >
+                <TableCell className="font-medium">#{order.orderNumber}</TableCell>
+                <TableCell>
+                  <div>{order.customerName || "Unknown customer"}</div>
+                  <div className="text-sm text-gray-500">{order.customerEmail}</div>
+                </TableCell>
+                <TableCell>{new Date(order.createdAt).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {order.items.reduce((total, item) => total + item.quantity, 0)}
+                </TableCell>
+                <TableCell>
+                  {formatMoney(order.total, order.currency ?? settings.defaultCurrency)}
+                </TableCell>
+                <TableCell>
+                  <OrderStatusBadge status={order.status} />
+                </TableCell>
+              </TableRow>
+            ))}
+            {filteredOrders.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-10 text-gray-500">
+                  No orders match the current filters.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default Orders;
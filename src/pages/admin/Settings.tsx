@@ -0,0 +1,785 @@
+import { useState, useEffect, ChangeEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+import AdminLayout from "@/components/AdminLayout";
+import { useToast } from "@/components/ui/use-toast";
+import { StoreSettings, useStoreSettings } from "@/contexts/StoreSettingsContext";
+import { SHIPPING_RATE_TYPES, ShippingRateType } from "@/api/settings";
+import { CURRENCIES, CURRENCY_CODES, CurrencyCode } from "@/lib/currency";
+import { ExchangeRates } from "@/lib/money";
+import {
+  SAMPLE_MESSAGE_VALUES,
+  WHATSAPP_PLACEHOLDERS,
+  WhatsAppPlaceholder,
+  WhatsAppTemplateName,
+  renderWhatsAppTemplate,
+} from "@/lib/whatsapp";
+import { getCountryName } from "@/lib/countries";
+import { getErrorMessage } from "@/api/client";
+
+const toFormData = (settings: StoreSettings) => ({
+  storeName: settings.storeName,
+  logoUrl: settings.logoUrl || "",
+  contactEmail: settings.contactEmail || "",
+  whatsappNumber: settings.whatsappNumber,
+  whatsappTemplates: settings.whatsappTemplates,
+  whatsappRoutes: settings.whatsappRoutes,
+  defaultCurrency: settings.defaultCurrency,
+  exchangeRates: Object.fromEntries(
+    CURRENCY_CODES.map((code) => [code, settings.exchangeRates[code]?.toString() ?? ""])
+  ) as Record<CurrencyCode, string>,
+  taxRate: settings.taxRate.toString(),
+  pricesIncludeTax: settings.pricesIncludeTax,
+  taxRules: settings.taxRules.map((rule) => ({
+    country: rule.country,
+    region: rule.region ?? "",
+    rate: rule.rate.toString(),
+  })),
+  shippingFee: settings.shippingFee.toString(),
+  freeShippingOver: settings.freeShippingOver?.toString() ?? "",
+  shippingZones: settings.shippingZones.map((zone) => ({
+    name: zone.name,
+    countries: zone.countries.join(", "),
+    rateType: zone.rateType,
+    fee: zone.fee.toString(),
+    perKg: zone.perKg.toString(),
+    freeOver: zone.freeOver?.toString() ?? "",
+  })),
+  facebook: settings.socialLinks.facebook || "",
+  instagram: settings.socialLinks.instagram || "",
+  twitter: settings.socialLinks.twitter || "",
+});
+
+type FormData = ReturnType<typeof toFormData>;
+type TaxRuleRow = FormData["taxRules"][number];
+type ShippingZoneRow = FormData["shippingZones"][number];
+
+const EMPTY_TAX_RULE: TaxRuleRow = { country: "", region: "", rate: "" };
+
+const EMPTY_SHIPPING_ZONE: ShippingZoneRow = {
+  name: "",
+  countries: "",
+  rateType: "flat",
+  fee: "",
+  perKg: "",
+  freeOver: "",
+};
+
+const SHIPPING_RATE_LABELS: Record<ShippingRateType, string> = {
+  flat: "Flat rate",
+  weight: "By weight",
+};
+
+const parseCountryCodes = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((code) => code.trim().toUpperCase())
+    .filter((code) => /^[A-Z]{2}$/.test(code));
+
+const TEMPLATE_TABS: { name: WhatsAppTemplateName; label: string; description: string }[] = [
+  { name: "order", label: "Order", description: "Sent when a shopper shares a placed order." },
+  { name: "buyNow", label: "Buy Now", description: "Sent from a product page's Buy Now button." },
+];
+
+const Settings = () => {
+  const { toast } = useToast();
+  const { settings, loading, updateSettings } = useStoreSettings();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState(() => toFormData(settings));
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up the server copy once it arrives
+  useEffect(() => {
+    if (!loading) {
+      setFormData(toFormData(settings));
+    }
+  }, [loading, settings]);
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData({ ...formData, [name]: value });
+  };
+
+  const handleRateChange = (code: CurrencyCode, value: string) => {
+    setFormData({ ...formData, exchangeRates: { ...formData.exchangeRates, [code]: value } });
+  };
+
+  const handleTemplateChange = (name: WhatsAppTemplateName, value: string) => {
+    setFormData({
+      ...formData,
+      whatsappTemplates: { ...formData.whatsappTemplates, [name]: value },
+    });
+  };
+
+  const insertPlaceholder = (name: WhatsAppTemplateName, placeholder: WhatsAppPlaceholder) => {
+    handleTemplateChange(name, `${formData.whatsappTemplates[name]}{{${placeholder}}}`);
+  };
+
+  const handleRouteChange = (index: number, field: "country" | "phoneNumber", value: string) => {
+    setFormData({
+      ...formData,
+      whatsappRoutes: formData.whatsappRoutes.map((route, i) =>
+        i === index ? { ...route, [field]: value } : route
+      ),
+    });
+  };
+
+  const addRoute = () => {
+    setFormData({
+      ...formData,
+      whatsappRoutes: [...formData.whatsappRoutes, { country: "", phoneNumber: "" }],
+    });
+  };
+
+  const removeRoute = (index: number) => {
+    setFormData({
+      ...formData,
+      whatsappRoutes: formData.whatsappRoutes.filter((_, i) => i !== index),
+    });
+  };
+
+  // Updates one row of a repeatable section such as tax rules or shipping zones
+  const updateRow = <K extends "taxRules" | "shippingZones">(
+    key: K,
+    index: number,
+    changes: Partial<FormData[K][number]>
+  ) => {
+    setFormData({
+      ...formData,
+      [key]: formData[key].map((row, i) => (i === index ? { ...row, ...changes } : row)),
+    });
+  };
+
+  const removeRow = (key: "taxRules" | "shippingZones", index: number) => {
+    setFormData({ ...formData, [key]: formData[key].filter((_, i) => i !== index) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await updateSettings({
+        storeName: formData.storeName.trim(),
+        logoUrl: formData.logoUrl.trim() || undefined,
+        contactEmail: formData.contactEmail.trim() || undefined,
+        whatsappNumber: formData.whatsappNumber.trim(),
+        whatsappTemplates: formData.whatsappTemplates,
+        // Incomplete rows are dropped rather than blocking the save
+        whatsappRoutes: formData.whatsappRoutes
+          .map((route) => ({
+            country: route.country.trim().toUpperCase(),
+            phoneNumber: route.phoneNumber.trim(),
+          }))
+          .filter((route) => /^[A-Z]{2}$/.test(route.country) && route.phoneNumber),
+        defaultCurrency: formData.defaultCurrency,
+        // Blank or invalid rates switch that currency off for shoppers
+        exchangeRates: CURRENCY_CODES.reduce<ExchangeRates>((rates, code) => {
+          const rate = parseFloat(formData.exchangeRates[code]);
+          if (code !== formData.defaultCurrency && rate > 0) {
+            rates[code] = rate;
+          }
+          return rates;
+        }, {}),
+        taxRate: parseFloat(formData.taxRate) || 0,
+        pricesIncludeTax: formData.pricesIncludeTax,
+        taxRules: formData.taxRules
+          .map((rule) => ({
+            country: rule.country.trim().toUpperCase(),
+            region: rule.region.trim() || undefined,
+            rate: parseFloat(rule.rate),
+          }))
+          .filter((rule) => /^[A-Z]{2}$/.test(rule.country) && rule.rate >= 0),
+        shippingFee: parseFloat(formData.shippingFee) || 0,
+        freeShippingOver: parseFloat(formData.freeShippingOver) || undefined,
+        shippingZones: formData.shippingZones
+          .map((zone) => ({
+            name: zone.name.trim(),
+            countries: parseCountryCodes(zone.countries),
+            rateType: zone.rateType,
+            fee: parseFloat(zone.fee) || 0,
+            perKg: zone.rateType === "weight" ? parseFloat(zone.perKg) || 0 : 0,
+            freeOver: parseFloat(zone.freeOver) || undefined,
+          }))
+          .filter((zone) => zone.name && zone.countries.length > 0),
+        socialLinks: {
+          facebook: formData.facebook.trim() || undefined,
+          instagram: formData.instagram.trim() || undefined,
+          twitter: formData.twitter.trim() || undefined,
+        },
+      });
+
+      toast({
+        title: "Settings saved",
+        description: "Your store settings have been updated.",
+      });
+    } catch (err) {
+      console.error("Error saving settings:", err);
+      const message = getErrorMessage(err, "Failed to save settings. Please try again.");
+      setError(message);
+      toast({
+        title: "Error saving settings",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Store Settings</h1>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {error && (
+          <div className="p-4 text-sm text-red-700 bg-red-100 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Branding</CardTitle>
+            <CardDescription>Shown in the storefront header, footer and browser tab.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="storeName">Store Name *</Label>
+              <Input
+                id="storeName"
+                name="storeName"
+                value={formData.storeName}
+                onChange={handleChange}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="logoUrl">Logo URL</Label>
+              <div className="flex items-center gap-3">
+                <Input
+                  id="logoUrl"
+                  name="logoUrl"
+                  type="url"
+                  value={formData.logoUrl}
+                  onChange={handleChange}
+                  placeholder="https://..."
+                />
+                {formData.logoUrl && (
+                  <img
+                    src={formData.logoUrl}
+                    alt="Logo preview"
+                    className="h-10 w-10 rounded object-contain border"
+                  />
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Contact</CardTitle>
+            <CardDescription>Orders placed via WhatsApp are sent to this number.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="whatsappNumber">WhatsApp Number *</Label>
+              <Input
+                id="whatsappNumber"
+                name="whatsappNumber"
+                type="tel"
+                value={formData.whatsappNumber}
+                onChange={handleChange}
+                placeholder="e.g. +971 50 123 4567"
+                required
+              />
+              <p className="text-xs text-gray-500">Include the country code.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contactEmail">Contact Email</Label>
+              <Input
+                id="contactEmail"
+                name="contactEmail"
+                type="email"
+                value={formData.contactEmail}
+                onChange={handleChange}
+                placeholder="support@example.com"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>WhatsApp Messages</CardTitle>
+            <CardDescription>
+              Use placeholders to fill in order details. Lines whose placeholders are all empty
+              are left out.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="order">
+              <TabsList>
+                {TEMPLATE_TABS.map((tab) => (
+                  <TabsTrigger key={tab.name} value={tab.name}>
+                    {tab.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {TEMPLATE_TABS.map((tab) => (
+                <TabsContent key={tab.name} value={tab.name}>
+                  <p className="text-sm text-gray-500 mb-4">{tab.description}</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <Label htmlFor={`template-${tab.name}`}>Template</Label>
+                      <Textarea
+                        id={`template-${tab.name}`}
+                        rows={14}
+                        className="font-mono text-sm"
+                        value={formData.whatsappTemplates[tab.name]}
+                        onChange={(e) => handleTemplateChange(tab.name, e.target.value)}
+                      />
+                      <div className="flex flex-wrap gap-1">
+                        {(Object.keys(WHATSAPP_PLACEHOLDERS) as WhatsAppPlaceholder[]).map(
+                          (placeholder) => (
+                            <Button
+                              key={placeholder}
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              className="h-7 font-mono text-xs"
+                              title={WHATSAPP_PLACEHOLDERS[placeholder]}
+                              onClick={() => insertPlaceholder(tab.name, placeholder)}
+                            >
+                              {`{{${placeholder}}}`}
+                            </Button>
+                          )
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Preview</Label>
+                      <div className="rounded-md bg-[#e5ddd5] p-4 min-h-[200px]">
+                        <div className="max-w-[90%] ml-auto rounded-lg bg-[#dcf8c6] p-3 text-sm whitespace-pre-wrap break-words shadow-sm">
+                          {renderWhatsAppTemplate(formData.whatsappTemplates[tab.name], {
+                            ...SAMPLE_MESSAGE_VALUES,
+                            storeName: formData.storeName,
+                          })}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </TabsContent>
+              ))}
+            </Tabs>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>WhatsApp Routing</CardTitle>
+            <CardDescription>
+              Send shoppers from specific countries to another number. Everyone else uses the
+              main WhatsApp number.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {formData.whatsappRoutes.map((route, index) => (
+              <div key={index} className="grid grid-cols-[8rem_1fr_auto] gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor={`route-country-${index}`}>Country code</Label>
+                  <Input
+                    id={`route-country-${index}`}
+                    value={route.country}
+                    maxLength={2}
+                    className="uppercase"
+                    placeholder="e.g. AE"
+                    onChange={(e) => handleRouteChange(index, "country", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`route-phone-${index}`}>
+                    WhatsApp Number
+                    {route.country.length === 2 && (
+                      <span className="text-gray-500 font-normal">
+                        {" "}
+                        for {getCountryName(route.country)}
+                      </span>
+                    )}
+                  </Label>
+                  <Input
+                    id={`route-phone-${index}`}
+                    type="tel"
+                    value={route.phoneNumber}
+                    placeholder="e.g. +971 50 123 4567"
+                    onChange={(e) => handleRouteChange(index, "phoneNumber", e.target.value)}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeRoute(index)}
+                  aria-label="Remove route"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addRoute}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add country
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Pricing</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="defaultCurrency">Default Currency</Label>
+              <Select
+                value={formData.defaultCurrency}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, defaultCurrency: value as CurrencyCode })
+                }
+              >
+                <SelectTrigger id="defaultCurrency">
+                  <SelectValue placeholder="Currency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((currency) => (
+                    <SelectItem key={currency.code} value={currency.code}>
+                      {currency.symbol} {currency.code} — {currency.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="taxRate">Tax Rate (%)</Label>
+              <Input
+                id="taxRate"
+                name="taxRate"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.taxRate}
+                onChange={handleChange}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shippingFee">Shipping Fee</Label>
+              <Input
+                id="shippingFee"
+                name="shippingFee"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.shippingFee}
+                onChange={handleChange}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="freeShippingOver">Free Shipping Over</Label>
+              <Input
+                id="freeShippingOver"
+                name="freeShippingOver"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.freeShippingOver}
+                onChange={handleChange}
+                placeholder="No threshold"
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3 md:col-span-2">
+              <div>
+                <Label htmlFor="pricesIncludeTax">Prices include tax</Label>
+                <p className="text-xs text-gray-500">
+                  Tax is shown as part of the total instead of being added to it.
+                </p>
+              </div>
+              <Switch
+                id="pricesIncludeTax"
+                checked={formData.pricesIncludeTax}
+                onCheckedChange={(checked) =>
+                  setFormData({ ...formData, pricesIncludeTax: checked })
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Shipping Zones</CardTitle>
+            <CardDescription>
+              Rates for specific countries, in {formData.defaultCurrency}. Countries outside
+              every zone use the shipping fee above. The first matching zone wins.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {formData.shippingZones.map((zone, index) => (
+              <div
+                key={index}
+                className="grid grid-cols-2 md:grid-cols-[1fr_1fr_9rem_7rem_7rem_7rem_auto] gap-3 items-end"
+              >
+                <div className="space-y-2">
+                  <Label htmlFor={`zone-name-${index}`}>Zone</Label>
+                  <Input
+                    id={`zone-name-${index}`}
+                    value={zone.name}
+                    placeholder="e.g. Gulf"
+                    onChange={(e) => updateRow("shippingZones", index, { name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`zone-countries-${index}`}>Country codes</Label>
+                  <Input
+                    id={`zone-countries-${index}`}
+                    value={zone.countries}
+                    className="uppercase"
+                    placeholder="e.g. AE, SA, QA"
+                    onChange={(e) =>
+                      updateRow("shippingZones", index, { countries: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Rate</Label>
+                  <Select
+                    value={zone.rateType}
+                    onValueChange={(value) =>
+                      updateRow("shippingZones", index, { rateType: value as ShippingRateType })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SHIPPING_RATE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {SHIPPING_RATE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`zone-fee-${index}`}>
+                    {zone.rateType === "weight" ? "Base fee" : "Fee"}
+                  </Label>
+                  <Input
+                    id={`zone-fee-${index}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={zone.fee}
+                    onChange={(e) => updateRow("shippingZones", index, { fee: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`zone-perkg-${index}`}>Per kg</Label>
+                  <Input
+                    id={`zone-perkg-${index}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={zone.perKg}
+                    disabled={zone.rateType !== "weight"}
+                    onChange={(e) => updateRow("shippingZones", index, { perKg: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`zone-free-${index}`}>Free over</Label>
+                  <Input
+                    id={`zone-free-${index}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={zone.freeOver}
+                    placeholder="—"
+                    onChange={(e) =>
+                      updateRow("shippingZones", index, { freeOver: e.target.value })
+                    }
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeRow("shippingZones", index)}
+                  aria-label="Remove zone"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setFormData({
+                  ...formData,
+                  shippingZones: [...formData.shippingZones, EMPTY_SHIPPING_ZONE],
+                })
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add zone
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tax Rules</CardTitle>
+            <CardDescription>
+              Rates for specific countries or regions. A region rule beats a country rule;
+              anywhere else uses the tax rate above.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {formData.taxRules.map((rule, index) => (
+              <div key={index} className="grid grid-cols-[8rem_1fr_8rem_auto] gap-3 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor={`tax-country-${index}`}>Country code</Label>
+                  <Input
+                    id={`tax-country-${index}`}
+                    value={rule.country}
+                    maxLength={2}
+                    className="uppercase"
+                    placeholder="e.g. CA"
+                    onChange={(e) => updateRow("taxRules", index, { country: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`tax-region-${index}`}>
+                    Region
+                    {rule.country.length === 2 && (
+                      <span className="text-gray-500 font-normal">
+                        {" "}
+                        in {getCountryName(rule.country)}
+                      </span>
+                    )}
+                  </Label>
+                  <Input
+                    id={`tax-region-${index}`}
+                    value={rule.region}
+                    placeholder="Whole country"
+                    onChange={(e) => updateRow("taxRules", index, { region: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`tax-rate-${index}`}>Rate (%)</Label>
+                  <Input
+                    id={`tax-rate-${index}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={rule.rate}
+                    onChange={(e) => updateRow("taxRules", index, { rate: e.target.value })}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeRow("taxRules", index)}
+                  aria-label="Remove tax rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setFormData({ ...formData, taxRules: [...formData.taxRules, EMPTY_TAX_RULE] })
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add tax rule
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Exchange Rates</CardTitle>
+            <CardDescription>
+              Shoppers can view prices in any currency with a rate. Leave blank to disable.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {CURRENCY_CODES.filter((code) => code !== formData.defaultCurrency).map((code) => (
+              <div key={code} className="space-y-2">
+                <Label htmlFor={`rate-${code}`}>
+                  1 {formData.defaultCurrency} = ? {code}
+                </Label>
+                <Input
+                  id={`rate-${code}`}
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={formData.exchangeRates[code]}
+                  onChange={(e) => handleRateChange(code, e.target.value)}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Social Links</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {(["facebook", "instagram", "twitter"] as const).map((network) => (
+              <div key={network} className="space-y-2">
+                <Label htmlFor={network} className="capitalize">{network}</Label>
+                <Input
+                  id={network}
+                  name={network}
+                  type="url"
+                  value={formData[network]}
+                  onChange={handleChange}
+                  placeholder="https://..."
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Button type="submit" disabled={isSubmitting} className="w-full">
+          {isSubmitting ? "Saving..." : "Save Settings"}
+        </Button>
+      </form>
+    </AdminLayout>
+  );
+};
+
+export default Settings;